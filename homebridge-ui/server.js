@@ -0,0 +1,39 @@
+const { HomebridgePluginUiServer, RequestError } = require('@homebridge/plugin-ui-utils');
+const ConfigUiHelper = require('../dist/configUiHelper').default;
+
+// Shows up in the Homebridge UI log. Debug output from the connection code is left out.
+const log = Object.assign((...args) => console.log(...args), {
+  info: (...args) => console.log(...args),
+  success: (...args) => console.log(...args),
+  warn: (...args) => console.warn(...args),
+  error: (...args) => console.error(...args),
+  debug: () => undefined,
+  log: (level, ...args) => console.log(...args),
+});
+
+/**
+ * Custom config UI server
+ * Lets the config page read persistent clients, tags and blockable services from AdGuard Home, so they can be
+ * picked instead of typed. Each request carries the platform config as it is on the page, and the server to ask.
+ */
+class AdGuardHomePlusUiServer extends HomebridgePluginUiServer {
+  constructor() {
+    super();
+
+    this.onRequest('/test', (payload) => this.handle(payload, (helper) => helper.testConnection()));
+    this.onRequest('/options', (payload) => this.handle(payload, (helper) => helper.getOptions()));
+    this.onRequest('/preview', (payload) => this.handle(payload, (helper) => helper.previewClients(payload.refs || [])));
+
+    this.ready();
+  }
+
+  async handle(payload, request) {
+    try {
+      return await request(ConfigUiHelper.forServer(payload.config || {}, payload.server, log));
+    } catch (e) {
+      throw new RequestError(e.message || `${e}`, { message: e.message || `${e}` });
+    }
+  }
+}
+
+(() => new AdGuardHomePlusUiServer())();
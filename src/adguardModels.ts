@@ -0,0 +1,230 @@
+import { AdGuardServicesSchedule } from './schedule';
+
+/**
+ * AdGuard Home API Models
+ * Request and response shapes for the parts of the AdGuard Home HTTP API this plugin uses, along with
+ * light-weight runtime checks that responses look the way we expect before we start relying on them.
+ *
+ * Fields that differ between AdGuard Home versions are marked with the version they appeared or went away in.
+ */
+
+// ----- Versions -----
+
+export class AdGuardVersion {
+  constructor(
+    public readonly major: number,
+    public readonly minor: number,
+    public readonly patch: number,
+  ) {}
+
+  // AGH reports versions like 'v0.107.43', 'v0.108.0-b.5' or 'edge'. Only the first can be compared.
+  public static parse(version: string | undefined): AdGuardVersion | undefined {
+    const match = /^v?(\d+)\.(\d+)\.(\d+)/.exec(version?.trim() ?? '');
+    return match ? new AdGuardVersion(parseInt(match[1]), parseInt(match[2]), parseInt(match[3])) : undefined;
+  }
+
+  public isAtLeast(version: string): boolean {
+    const other = AdGuardVersion.parse(version)!;
+    return (this.major - other.major || this.minor - other.minor || this.patch - other.patch) >= 0;
+  }
+
+  public toString(): string {
+    return `v${this.major}.${this.minor}.${this.patch}`;
+  }
+}
+
+// Oldest version the plugin is known to work with.
+export const MIN_SUPPORTED_VERSION = '0.107.0';
+
+// First versions to offer each endpoint variant.
+export const API_VERSIONS = {
+  protectionPause: '0.107.26',     // POST /control/protection
+  safeSearchSettings: '0.107.28',  // PUT /control/safesearch/settings, per-engine safe search
+  blockedServicesGet: '0.107.37',  // GET blocked_services/get + PUT blocked_services/update (was list + set)
+};
+
+// ----- Responses -----
+
+export interface ServerStatusResponse {
+  protection_enabled: boolean;
+  protection_disabled_duration?: number;  // ms left in a pause. v0.107.26+
+  protection_disabled_until?: string;     // end of a pause, when reported
+  version?: string;
+  running?: boolean;
+}
+
+export interface BlockedServicesResponse {
+  ids: string[] | null;
+  schedule?: AdGuardServicesSchedule;  // v0.107.37+
+}
+
+export interface BlockedServiceInfo {
+  id: string;         // 'youtube'
+  name: string;       // 'YouTube'
+  group_id?: string;  // 'video'. Only reported by newer versions.
+}
+
+export interface BlockedServicesAllResponse {
+  blocked_services: BlockedServiceInfo[] | null;
+  groups?: { id: string }[];  // Only reported by newer versions.
+}
+
+export interface SafeSearchSettings {
+  enabled: boolean;
+  [engine: string]: boolean;  // 'bing', 'google', 'youtube', ... v0.107.28+
+}
+
+export interface AdGuardClientConfig {
+  name: string;
+  ids: string[];
+  tags: string[] | null;
+  use_global_settings: boolean;
+  filtering_enabled: boolean;
+  parental_enabled: boolean;
+  safebrowsing_enabled: boolean;
+  safesearch_enabled?: boolean;       // before v0.107.28
+  safe_search?: SafeSearchSettings;   // v0.107.28+
+  use_global_blocked_services: boolean;
+  blocked_services: string[] | null;
+  blocked_services_schedule?: AdGuardServicesSchedule;  // v0.107.37+
+  [key: string]: unknown;  // upstreams, ignored flags, ... Passed back untouched.
+}
+
+export interface ClientsResponse {
+  clients: AdGuardClientConfig[] | null;
+}
+
+export interface FilterResponse {
+  url: string;
+  name: string;
+  enabled: boolean;
+}
+
+export interface FilterStatusResponse {
+  enabled: boolean;
+  filters: FilterResponse[] | null;
+  whitelist_filters: FilterResponse[] | null;
+  user_rules: string[] | string | null;  // A single block of text in older versions
+}
+
+export interface EnabledStatusResponse {
+  enabled: boolean;
+}
+
+export interface StatsResponse {
+  num_dns_queries: number;
+  num_blocked_filtering: number;
+  avg_processing_time: number;  // seconds
+}
+
+export interface QueryLogEntry {
+  time: string;         // RFC 3339, e.g. '2024-03-01T18:21:07.123456789+01:00'
+  client: string;       // IP address
+  client_id?: string;   // ClientID of encrypted DNS requests
+  client_info?: { name: string };
+  question: { name: string; type: string };
+  reason: string;       // 'FilteredBlackList', 'FilteredBlockedService', 'FilteredParental', ...
+  service_name?: string;  // Only for blocked services
+}
+
+export interface QueryLogResponse {
+  data: QueryLogEntry[] | null;  // newest first
+  oldest?: string;
+}
+
+// ----- Requests -----
+
+export interface LoginRequest {
+  name: string;
+  password: string;
+}
+
+export interface DnsConfigRequest {
+  protection_enabled: boolean;
+}
+
+export interface ProtectionRequest {
+  enabled: boolean;
+  duration?: number;  // ms
+}
+
+export interface BlockedServicesUpdateRequest {
+  ids: string[];
+  schedule?: AdGuardServicesSchedule;
+}
+
+export interface ClientUpdateRequest {
+  name: string;
+  data: AdGuardClientConfig;
+}
+
+export interface FilterSetUrlRequest {
+  url: string;
+  whitelist: boolean;
+  data: FilterResponse;
+}
+
+export interface SetRulesRequest {
+  rules: string[];
+}
+
+// ----- Validation -----
+
+// Expected JSON type of each field we rely on. A trailing '?' allows the field to be missing or null.
+type ResponseShape = Record<string, string>;
+
+export const RESPONSE_SHAPES: Record<string, ResponseShape> = {
+  status: {
+    protection_enabled: 'boolean', protection_disabled_duration: 'number?', protection_disabled_until: 'string?', version: 'string?',
+  },
+  blockedServices: { ids: 'array?', schedule: 'object?' },
+  blockedServicesAll: { blocked_services: 'array?', groups: 'array?' },
+  blockedService: { id: 'string', name: 'string', group_id: 'string?' },
+  clients: { clients: 'array?' },
+  client: { name: 'string', ids: 'array?', tags: 'array?', blocked_services: 'array?' },
+  filtering: { filters: 'array?', whitelist_filters: 'array?', user_rules: 'array|string?' },
+  filter: { url: 'string', name: 'string', enabled: 'boolean' },
+  enabledStatus: { enabled: 'boolean' },
+  queryLog: { data: 'array?', oldest: 'string?' },
+  queryLogEntry: { time: 'string', client: 'string', question: 'object', reason: 'string' },
+  stats: { num_dns_queries: 'number', num_blocked_filtering: 'number', avg_processing_time: 'number' },
+};
+
+export class AdGuardResponseError extends Error {
+  constructor(endpoint: string, detail: string) {
+    super(`Unexpected response from AdGuard Home '${endpoint}': ${detail}`);
+    this.name = 'AdGuardResponseError';
+  }
+}
+
+export function validateResponse<T>(endpoint: string, body: unknown, shape: ResponseShape): T {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new AdGuardResponseError(endpoint, `expected an object, but got ${describe(body)}.`);
+  }
+
+  Object.keys(shape).forEach((field) => {
+    const optional = shape[field].endsWith('?');
+    const types = shape[field].replace('?', '').split('|');
+    const value = body[field];
+    if (value === undefined || value === null) {
+      if (!optional) {
+        throw new AdGuardResponseError(endpoint, `'${field}' is missing.`);
+      }
+    } else if (!types.includes(describe(value))) {
+      throw new AdGuardResponseError(endpoint, `'${field}' should be ${types.join(' or ')}, but is ${describe(value)}.`);
+    }
+  });
+
+  return body as T;
+}
+
+export function validateArray<T>(endpoint: string, body: unknown, itemShape?: ResponseShape): T[] {
+  if (!Array.isArray(body)) {
+    throw new AdGuardResponseError(endpoint, `expected an array, but got ${describe(body)}.`);
+  }
+  return itemShape ? body.map((item) => validateResponse<T>(endpoint, item, itemShape)) : body;
+}
+
+function describe(value: unknown): string {
+  return (value === null) ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+}
@@ -0,0 +1,489 @@
+import AGH, { AuthMode, GlobalFeature } from './adguardhome';
+import { ClientSnapshot } from './clientSnapshotStore';
+import MockAdGuardHome from './mocks/mockAdGuardHome';
+import { createMockLogger } from './mocks/homebridge';
+
+describe('AdGuardHomeServer', () => {
+  const mock = new MockAdGuardHome();
+  let agh: AGH;
+
+  beforeAll(async () => {
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.stop();
+  });
+
+  beforeEach(() => {
+    mock.reset();
+    agh = new AGH('test', '127.0.0.1', `${mock.port}`, false, 'user', 'pass', AuthMode.Basic, 500, 2, 10, createMockLogger());
+  });
+
+  describe('getCurrentStatus', () => {
+    it('reads protection, services and clients', async () => {
+      mock.state.blocked_services = ['youtube'];
+      mock.addClient('Laptop');
+
+      const status = await agh.getCurrentStatus({ status: true, blockedServices: true, clients: true });
+
+      expect(status.isAvailable).toBe(true);
+      expect(status.enabled).toBe(true);
+      expect(status.blocked_services).toEqual(['youtube']);
+      expect(status.clients.map((c) => c.name)).toEqual(['Laptop']);
+      expect(agh.serverVersion?.toString()).toBe('v0.107.43');
+    });
+
+    it('only requests what was asked for, once the version is known', async () => {
+      await agh.getCurrentStatus({ status: true });
+      mock.requests.length = 0;
+
+      await agh.getCurrentStatus({ clients: true });
+
+      expect(mock.requests.map((r) => r.path)).toEqual(['clients']);
+    });
+
+    it('falls back on blocked_services/list for older versions', async () => {
+      mock.state.version = 'v0.107.20';
+      mock.state.blocked_services = ['tiktok'];
+
+      await agh.getCurrentStatus({ status: true });
+      const status = await agh.getCurrentStatus({ blockedServices: true });
+
+      expect(status.blocked_services).toEqual(['tiktok']);
+      expect(mock.requests.map((r) => r.path)).toContain('blocked_services/list');
+    });
+
+    it('reports a server error as unavailable', async () => {
+      mock.injectFault({ path: 'clients', status: 500 });
+
+      const status = await agh.getCurrentStatus({ status: true, clients: true });
+
+      expect(status.isAvailable).toBe(false);
+      expect(status.isAuthorized).toBe(true);
+    });
+
+    it('reports a timeout as unavailable', async () => {
+      mock.injectFault({ hang: true });
+
+      const status = await agh.getCurrentStatus({ status: true });
+
+      expect(status.isAvailable).toBe(false);
+    });
+
+    it('tolerates latency within the timeout', async () => {
+      mock.injectFault({ latency: 100 });
+
+      const status = await agh.getCurrentStatus({ status: true });
+
+      expect(status.isAvailable).toBe(true);
+    });
+
+    it('reports rejected credentials as unauthorized', async () => {
+      mock.injectFault({ status: 401 });
+
+      const status = await agh.getCurrentStatus({ status: true });
+
+      expect(status.isAvailable).toBeUndefined();  // Not down, but nothing to go by
+      expect(status.isAuthorized).toBe(false);
+    });
+
+    it('reports a server that goes down after rejecting credentials as unreachable', async () => {
+      mock.injectFault({ status: 401, times: 1 });
+      await agh.getCurrentStatus({ status: true });
+
+      mock.injectFault({ hang: true });
+      const status = await agh.getCurrentStatus({ status: true });
+
+      expect(status.isAvailable).toBe(false);
+      expect(status.isAuthorized).toBe(true);
+    });
+
+    it('reads filter lists, user rules, features and stats', async () => {
+      mock.state.whitelist_filters = [{ url: 'https://example.com/allow.txt', name: 'Allowed', enabled: true }];
+      mock.state.user_rules = ['||ads.example.com^'];
+      mock.state.safe_search = { enabled: true, bing: false, youtube: true };
+      mock.state.stats = { num_dns_queries: 200, num_blocked_filtering: 50, avg_processing_time: 0.012 };
+
+      const status = await agh.getCurrentStatus({ filtering: true, parental: true, safeBrowsing: true, safeSearch: true, stats: true });
+
+      expect(status.filters.map((f) => [f.name, f.enabled, f.whitelist])).toEqual([
+        ['Ads', true, false], ['Gambling', false, false], ['Allowed', true, true],
+      ]);
+      expect(status.user_rules).toEqual(['||ads.example.com^']);
+      expect(status.parental_enabled).toBe(false);
+      expect(status.safebrowsing_enabled).toBe(true);
+      expect(status.safe_search?.enabled).toBe(true);
+      expect(status.safe_search?.engines).toEqual({ bing: false, youtube: true });
+      expect(status.stats?.totalQueries).toBe(200);
+      expect(status.stats?.blockedQueries).toBe(50);
+      expect(status.stats?.avgProcessingTime).toBeCloseTo(12);
+    });
+  });
+
+  describe('login mode', () => {
+    beforeEach(() => {
+      mock.state.login = { name: 'user', password: 'pass' };
+      agh = new AGH('test', '127.0.0.1', `${mock.port}`, false, 'user', 'pass', AuthMode.Login, 500, 2, 10, createMockLogger());
+    });
+
+    it('logs in once and reuses the session', async () => {
+      await agh.getCurrentStatus({ status: true, clients: true });
+      const status = await agh.getCurrentStatus({ status: true });
+
+      expect(status.isAvailable).toBe(true);
+      expect(mock.requests.filter((r) => r.path === 'login')).toHaveLength(1);
+      expect(mock.requests.find((r) => r.path === 'login')?.body).toEqual({ name: 'user', password: 'pass' });
+    });
+
+    it('logs in again when the session has expired', async () => {
+      await agh.getCurrentStatus({ status: true });
+      mock.expireSessions();
+
+      const status = await agh.getCurrentStatus({ status: true });
+
+      expect(status.isAvailable).toBe(true);
+      expect(mock.requests.filter((r) => r.path === 'login')).toHaveLength(2);
+    });
+
+    it('reports wrong credentials as unauthorized', async () => {
+      mock.state.login = { name: 'user', password: 'other' };
+
+      const status = await agh.getCurrentStatus({ status: true });
+
+      expect(status.isAvailable).toBeUndefined();  // Not down, but nothing to go by
+      expect(status.isAuthorized).toBe(false);
+    });
+
+    it('reports a server that goes down after a failed login as unreachable', async () => {
+      mock.state.login = { name: 'user', password: 'other' };
+      await agh.getCurrentStatus({ status: true });
+
+      mock.injectFault({ path: 'login', hang: true });
+      const status = await agh.getCurrentStatus({ status: true });
+
+      expect(status.isAvailable).toBe(false);
+      expect(status.isAuthorized).toBe(true);
+    });
+
+    it('writes with the session', async () => {
+      expect(await agh.postGlobal(false)).toBe(true);
+      expect(mock.state.protection_enabled).toBe(false);
+    });
+  });
+
+  describe('getServiceCatalog', () => {
+    it('reads services and their groups', async () => {
+      const catalog = await agh.getServiceCatalog();
+
+      expect(catalog.services.map((s) => s.id)).toContain('youtube');
+      expect(catalog.groups.sort()).toEqual(['social_network', 'video']);
+    });
+
+    it('falls back on the bare list of IDs for older versions', async () => {
+      mock.injectFault({ path: 'blocked_services/all', status: 404 });
+
+      const catalog = await agh.getServiceCatalog();
+
+      expect(catalog.services).toContainEqual({ id: 'tiktok', name: 'tiktok' });
+      expect(catalog.groups).toEqual([]);
+    });
+  });
+
+  describe('postGlobal', () => {
+    it('turns protection off and on', async () => {
+      expect(await agh.postGlobal(false)).toBe(true);
+      expect(mock.state.protection_enabled).toBe(false);
+
+      expect(await agh.postGlobal(true)).toBe(true);
+      expect(mock.state.protection_enabled).toBe(true);
+    });
+
+    it('returns false when the server keeps failing', async () => {
+      mock.injectFault({ path: 'dns_config', status: 500 });
+
+      expect(await agh.postGlobal(false)).toBe(false);
+      expect(mock.state.protection_enabled).toBe(true);
+      expect(mock.requests.filter((r) => r.path === 'dns_config')).toHaveLength(3);  // First try and 2 retries
+    });
+
+    it('retries a write the server failed', async () => {
+      mock.injectFault({ path: 'dns_config', status: 503, times: 1 });
+
+      expect(await agh.postGlobal(false)).toBe(true);
+      expect(mock.state.protection_enabled).toBe(false);
+    });
+
+    it('does not retry a write the server rejected', async () => {
+      mock.injectFault({ path: 'dns_config', status: 400, times: 1 });
+
+      expect(await agh.postGlobal(false)).toBe(false);
+      expect(mock.requests.filter((r) => r.path === 'dns_config')).toHaveLength(1);
+    });
+  });
+
+  describe('postGlobalServices', () => {
+    it('adds and removes services without touching others', async () => {
+      mock.state.blocked_services = ['tiktok'];
+      await agh.getCurrentStatus({ status: true, blockedServices: true });
+
+      await agh.postGlobalServices(true, ['youtube', 'tiktok']);
+      expect(mock.state.blocked_services.sort()).toEqual(['tiktok', 'youtube']);
+
+      await agh.getCurrentStatus({ blockedServices: true });
+      await agh.postGlobalServices(false, ['youtube']);
+      expect(mock.state.blocked_services).toEqual(['tiktok']);
+    });
+
+    it('keeps the schedule set in AdGuard Home', async () => {
+      const schedule = { time_zone: 'Europe/Berlin', mon: { start: 0, end: 3600000 } };
+      mock.state.blocked_services_schedule = schedule;
+      await agh.getCurrentStatus({ status: true });
+
+      await agh.postGlobalServices(true, ['youtube']);
+      await agh.postGlobalServices(false, ['youtube']);
+
+      expect(mock.state.blocked_services_schedule).toEqual(schedule);
+      expect(mock.requests.filter((r) => r.path === 'blocked_services/update').map((r) => r.body))
+        .toEqual([{ ids: ['youtube'], schedule }, { ids: [], schedule }]);
+    });
+
+    it('sends the switch\'s own schedule when blocking', async () => {
+      const schedule = { time_zone: 'Local', sat: { start: 0, end: 86400000 } };
+      await agh.getCurrentStatus({ status: true });
+
+      await agh.postGlobalServices(true, ['youtube'], schedule);
+
+      expect(mock.state.blocked_services).toEqual(['youtube']);
+      expect(mock.state.blocked_services_schedule).toEqual(schedule);
+    });
+  });
+
+  describe('postFilters', () => {
+    it('switches filter lists by name or URL', async () => {
+      await agh.getCurrentStatus({ status: true, filtering: true });
+
+      expect(await agh.postFilters(true, ['Gambling'])).toBe(true);
+      expect(await agh.postFilters(false, ['https://example.com/ads.txt'])).toBe(true);
+
+      expect(mock.state.filters.map((f) => [f.name, f.enabled])).toEqual([['Ads', false], ['Gambling', true]]);
+      expect(mock.requests.find((r) => r.path === 'filtering/set_url')?.body).toEqual({
+        url: 'https://example.com/gambling.txt', whitelist: false,
+        data: { name: 'Gambling', url: 'https://example.com/gambling.txt', enabled: true },
+      });
+    });
+
+    it('switches allow lists', async () => {
+      mock.state.whitelist_filters = [{ url: 'https://example.com/allow.txt', name: 'Allowed', enabled: true }];
+      await agh.getCurrentStatus({ status: true, filtering: true });
+
+      expect(await agh.postFilters(false, ['Allowed'])).toBe(true);
+
+      expect(mock.state.whitelist_filters[0].enabled).toBe(false);
+    });
+
+    it('fails for a filter list that does not exist', async () => {
+      await agh.getCurrentStatus({ status: true, filtering: true });
+
+      expect(await agh.postFilters(true, ['Missing'])).toBe(false);
+      expect(mock.requests.filter((r) => r.path === 'filtering/set_url')).toHaveLength(0);
+    });
+  });
+
+  describe('postRules', () => {
+    it('adds and removes its own rules without touching others', async () => {
+      mock.state.user_rules = ['# mine', '||tracker.example.com^'];
+      await agh.getCurrentStatus({ status: true });
+
+      expect(await agh.postRules(true, ['||ads.example.com^', '||tracker.example.com^'])).toBe(true);
+      expect(mock.state.user_rules).toEqual(['# mine', '||tracker.example.com^', '||ads.example.com^']);
+
+      expect(await agh.postRules(false, ['||ads.example.com^'])).toBe(true);
+      expect(mock.state.user_rules).toEqual(['# mine', '||tracker.example.com^']);
+    });
+  });
+
+  describe('postFeature', () => {
+    it('switches parental control and safe browsing', async () => {
+      await agh.getCurrentStatus({ status: true });
+
+      expect(await agh.postFeature(true, GlobalFeature.Parental)).toBe(true);
+      expect(await agh.postFeature(false, GlobalFeature.SafeBrowsing)).toBe(true);
+
+      expect(mock.state.parental_enabled).toBe(true);
+      expect(mock.state.safebrowsing_enabled).toBe(false);
+    });
+
+    it('switches safe search as a whole', async () => {
+      await agh.getCurrentStatus({ status: true });
+
+      expect(await agh.postFeature(true, GlobalFeature.SafeSearch)).toBe(true);
+
+      expect(mock.state.safe_search).toEqual({ enabled: true, bing: true, google: true, youtube: true });
+    });
+
+    it('only switches the given safe search engines', async () => {
+      mock.state.safe_search = { enabled: true, bing: true, google: true, youtube: true };
+      await agh.getCurrentStatus({ status: true });
+
+      expect(await agh.postFeature(false, GlobalFeature.SafeSearch, ['youtube'])).toBe(true);
+      expect(mock.state.safe_search).toEqual({ enabled: true, bing: true, google: true, youtube: false });
+
+      expect(await agh.postFeature(false, GlobalFeature.SafeSearch, ['bing', 'google'])).toBe(true);
+      expect(mock.state.safe_search).toEqual({ enabled: false, bing: false, google: false, youtube: false });
+    });
+
+    it('switches all of safe search on versions without engine settings', async () => {
+      mock.state.version = 'v0.107.20';
+      await agh.getCurrentStatus({ status: true });
+
+      expect(await agh.postFeature(true, GlobalFeature.SafeSearch, ['youtube'])).toBe(true);
+
+      expect(mock.state.safe_search.enabled).toBe(true);
+      expect(mock.requests.map((r) => r.path)).toContain('safesearch/enable');
+    });
+  });
+
+  describe('concurrent writes', () => {
+    it('keeps both intents when two global services switches fire together', async () => {
+      await agh.getCurrentStatus({ status: true, blockedServices: true });
+      mock.injectFault({ path: 'blocked_services/update', latency: 50, times: 1 });
+
+      const results = await Promise.all([agh.postGlobalServices(true, ['youtube']), agh.postGlobalServices(true, ['tiktok'])]);
+
+      expect(results).toEqual([true, true]);
+      expect(mock.state.blocked_services.sort()).toEqual(['tiktok', 'youtube']);
+    });
+
+    it('keeps both intents when two switches share a client', async () => {
+      mock.addClient('Tablet', { blocked_services: ['netflix'] });
+      await agh.getCurrentStatus({ clients: true });
+      mock.injectFault({ path: 'clients/update', latency: 50, times: 1 });
+
+      await Promise.all([
+        agh.postClientServices(true, ['Tablet'], ['youtube']),
+        agh.postClientServices(false, ['Tablet'], ['netflix']),
+        agh.postClientServices(true, ['Tablet'], ['tiktok']),
+      ]);
+
+      expect(mock.findClient('Tablet')!.blocked_services!.sort()).toEqual(['tiktok', 'youtube']);
+    });
+
+    it('builds on changes made since the last poll', async () => {
+      await agh.getCurrentStatus({ status: true, blockedServices: true });
+      mock.state.blocked_services = ['reddit'];  // Changed in the AGH UI after the poll.
+
+      await agh.postGlobalServices(true, ['youtube']);
+
+      expect(mock.state.blocked_services.sort()).toEqual(['reddit', 'youtube']);
+    });
+
+    it('carries on with the queue after a failed write', async () => {
+      await agh.getCurrentStatus({ status: true, blockedServices: true });
+      mock.injectFault({ path: 'blocked_services/update', status: 400, times: 1 });
+
+      const results = await Promise.all([agh.postGlobalServices(true, ['youtube']), agh.postGlobalServices(true, ['tiktok'])]);
+
+      expect(results).toEqual([false, true]);
+      expect(mock.state.blocked_services).toEqual(['tiktok']);
+    });
+  });
+
+  describe('expandTags', () => {
+    it('expands tags to the clients that carry them', async () => {
+      mock.addClient('Tablet', { tags: ['user_child'] });
+      mock.addClient('Phone', { tags: ['user_child', 'device_phone'] });
+      mock.addClient('Laptop', { tags: null });
+      await agh.getCurrentStatus({ clients: true });
+
+      expect(agh.expandTags(['@user_child', 'Laptop'])).toEqual(['Tablet', 'Phone', 'Laptop']);
+      expect(agh.expandTags(['Phone', '@device_phone'])).toEqual(['Phone']);
+      expect(agh.expandTags(['@unknown'])).toEqual([]);
+    });
+  });
+
+  describe('postClients', () => {
+    let saved: Map<string, ClientSnapshot>;
+    const read = async (name: string) => saved.get(name) ?? null;
+    const write = async (name: string, snapshot: ClientSnapshot) => {
+      saved.set(name, snapshot);
+    };
+    const remove = async (name: string) => {
+      saved.delete(name);
+    };
+
+    beforeEach(() => {
+      saved = new Map<string, ClientSnapshot>();
+    });
+
+    it('saves a snapshot when unblocking and restores it when blocking again', async () => {
+      mock.addClient('Tablet', { use_global_settings: false, parental_enabled: true, blocked_services: ['tiktok'] });
+      await agh.getCurrentStatus({ clients: true });
+
+      expect(await agh.postClients(false, ['Tablet'], read, write, remove)).toBe(true);
+      expect(agh.isBlockingEnabled(mock.findClient('Tablet')!)).toBe(false);
+      expect(saved.get('Tablet')?.client.blocked_services).toEqual(['tiktok']);
+      expect(saved.get('Tablet')?.applied).toEqual(mock.findClient('Tablet'));
+
+      await agh.getCurrentStatus({ clients: true });
+      expect(await agh.postClients(true, ['Tablet'], read, write, remove)).toBe(true);
+      expect(mock.findClient('Tablet')).toMatchObject({ use_global_settings: false, parental_enabled: true, blocked_services: ['tiktok'] });
+      expect(saved.has('Tablet')).toBe(false);
+    });
+
+    it('keeps the snapshot for a retry, and until the client is written', async () => {
+      mock.addClient('Tablet', { use_global_settings: false, parental_enabled: true, blocked_services: ['tiktok'] });
+      await agh.getCurrentStatus({ clients: true });
+      await agh.postClients(false, ['Tablet'], read, write, remove);
+
+      // One failed write is retried with the same snapshot. A write that keeps failing leaves it in place.
+      mock.injectFault({ path: 'clients/update', status: 500, times: 1 });
+      expect(await agh.postClients(true, ['Tablet'], read, write, remove)).toBe(true);
+      expect(mock.findClient('Tablet')).toMatchObject({ use_global_settings: false, parental_enabled: true, blocked_services: ['tiktok'] });
+      expect(saved.has('Tablet')).toBe(false);
+
+      await agh.postClients(false, ['Tablet'], read, write, remove);
+      mock.injectFault({ path: 'clients/update', status: 500 });
+      expect(await agh.postClients(true, ['Tablet'], read, write, remove)).toBe(false);
+      expect(saved.get('Tablet')?.client.blocked_services).toEqual(['tiktok']);
+      mock.clearFaults();
+    });
+
+    it('falls back on global settings when there is no snapshot', async () => {
+      mock.addClient('Tablet', { use_global_settings: false, filtering_enabled: false, use_global_blocked_services: false });
+      await agh.getCurrentStatus({ clients: true });
+
+      await agh.postClients(true, ['Tablet'], async () => null, async () => undefined, remove);
+
+      expect(mock.findClient('Tablet')).toMatchObject({ use_global_settings: true, use_global_blocked_services: true });
+    });
+
+    it('keeps changes made in AdGuard Home while blocking was off', async () => {
+      mock.addClient('Tablet', { use_global_settings: false, parental_enabled: true, blocked_services: ['tiktok'], upstreams: [] });
+      await agh.getCurrentStatus({ clients: true });
+      await agh.postClients(false, ['Tablet'], read, write, remove);
+
+      // Edited in the AGH UI: a new ID and upstream, and safe browsing turned on by hand.
+      Object.assign(mock.findClient('Tablet')!, { ids: ['tablet', '192.168.1.20'], upstreams: ['1.1.1.1'], safebrowsing_enabled: true });
+      await agh.postClients(true, ['Tablet'], read, write, remove);
+
+      expect(mock.findClient('Tablet')).toMatchObject({
+        ids: ['tablet', '192.168.1.20'],
+        upstreams: ['1.1.1.1'],
+        safebrowsing_enabled: true,
+        parental_enabled: true,
+        blocked_services: ['tiktok'],
+      });
+    });
+
+    it('restores snapshots saved by older versions', async () => {
+      mock.addClient('Tablet', { use_global_settings: false, filtering_enabled: false, use_global_blocked_services: false });
+      await agh.getCurrentStatus({ clients: true });
+      const legacy = { ...mock.findClient('Tablet')!, filtering_enabled: true, blocked_services: ['tiktok'] };
+
+      await agh.postClients(true, ['Tablet'], async () => ({ savedAt: 0, client: legacy }), write, remove);
+
+      expect(mock.findClient('Tablet')).toMatchObject({ filtering_enabled: true, blocked_services: ['tiktok'] });
+    });
+  });
+});
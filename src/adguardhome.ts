@@ -1,34 +1,169 @@
-import got, { /* CancelableRequest, */ Response, Got } from 'got';
+import got, { /* CancelableRequest, */ Response, Got, NormalizedOptions, RequestError } from 'got';
 import { Logger } from 'homebridge';
+import { AdGuardServicesSchedule } from './schedule';
+import { ClientSnapshot } from './clientSnapshotStore';
+import {
+  AdGuardClientConfig, AdGuardVersion, API_VERSIONS, BlockedServiceInfo, BlockedServicesAllResponse, BlockedServicesResponse,
+  BlockedServicesUpdateRequest, ClientUpdateRequest, ClientsResponse, DnsConfigRequest, EnabledStatusResponse, FilterResponse,
+  FilterSetUrlRequest, FilterStatusResponse, LoginRequest, MIN_SUPPORTED_VERSION, ProtectionRequest, QueryLogEntry,
+  QueryLogResponse, RESPONSE_SHAPES, SafeSearchSettings, ServerStatusResponse, SetRulesRequest, StatsResponse, validateArray,
+  validateResponse,
+} from './adguardModels';
+
+export { AdGuardClientConfig, BlockedServiceInfo, QueryLogEntry } from './adguardModels';
+
+// How many of the latest (blocked) queries to read on each poll.
+const QUERY_LOG_LIMIT = 100;
+const RECENT_QUERY_LIMIT = 500;
+
+export class AdGuardStats {
+  public totalQueries = 0;
+  public blockedQueries = 0;
+  public avgProcessingTime = 0; // ms
+
+  public get blockedPercentage(): number {
+    return (this.totalQueries > 0) ? (this.blockedQueries * 100 / this.totalQueries) : 0;
+  }
+}
+
+// Running totals for the requests made to one AdGuard Home API endpoint.
+export class AdGuardRequestStats {
+  public requests = 0;
+  public seconds = 0;  // total time spent waiting on them
+  public errors = 0;   // HTTP errors, timeouts and connection failures
+}
+
+export class AdGuardFilter {
+  public url = '';
+  public name = '';
+  public enabled = false;
+  public whitelist = false;
+}
+
+// Server-wide protection features that can be switched on their own.
+export const enum GlobalFeature {
+  Parental = 'parental',
+  SafeBrowsing = 'safebrowsing',
+  SafeSearch = 'safesearch',
+}
+
+// Safe search has a global 'enabled' flag plus one flag per search engine. ('google', 'youtube', ...)
+export class AdGuardSafeSearch {
+  public enabled = false;
+  public engines: Record<string, boolean> = {};
+}
+
+// Which parts of the AdGuard Home status to fetch. Anything left out is not requested.
+export interface AdGuardStatusQuery {
+  status?: boolean;
+  blockedServices?: boolean;
+  clients?: boolean;
+  filtering?: boolean;
+  parental?: boolean;
+  safeBrowsing?: boolean;
+  safeSearch?: boolean;
+  stats?: boolean;
+  blockedQueries?: boolean;
+  recentQueries?: boolean;
+}
+
+export function mergeStatusQueries(...queries: AdGuardStatusQuery[]): AdGuardStatusQuery {
+  const merged: AdGuardStatusQuery = {};
+  queries.forEach((query) => {
+    Object.keys(query).forEach((key) => {
+      merged[key] ||= query[key];
+    });
+  });
+  return merged;
+}
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export type AdGuardClientConfig = any;
 export class AdGuardStatus {
-  public isAvailable: boolean | undefined;
+  public server = '';
+  public requestedAt = 0;  // ms since epoch, when the status was asked for
+  public isAvailable: boolean | undefined;  // undefined when the server answered, but rejected our credentials
+  public isAuthorized: boolean | undefined;
   public error;
   public enabled: boolean | undefined;
+  public protection_disabled_until: number | undefined; // ms since epoch, while protection is paused
   public blocked_services: string[] = [];
+  public blocked_services_schedule: AdGuardServicesSchedule | undefined;
   public clients: AdGuardClientConfig[] = [];
+  public filters: AdGuardFilter[] = [];
+  public user_rules: string[] = [];
+  public parental_enabled: boolean | undefined;
+  public safebrowsing_enabled: boolean | undefined;
+  public safe_search: AdGuardSafeSearch | undefined;
+  public stats: AdGuardStats | undefined;
+  public blocked_queries: QueryLogEntry[] = [];  // newest first
+  public recent_queries: QueryLogEntry[] = [];   // newest first, blocked or not
+}
+
+// Client settings that make up 'blocking' for a client. These are the only ones a client switch changes.
+const CLIENT_BLOCKING_FIELDS = ['use_global_settings', 'filtering_enabled', 'parental_enabled', 'safebrowsing_enabled',
+  'safesearch_enabled', 'safe_search', 'use_global_blocked_services', 'blocked_services'];
+
+// Name given to the server built from the top-level 'host'/'port'/... settings when no 'servers' list is configured.
+export const DEFAULT_SERVER_NAME = 'default';
+
+// 'const enum' is faster, but requires manual lookups.
+export const enum AuthMode {
+  Basic = 'basic',  // 'Authorization' header on every request
+  Login = 'login',  // POST to /control/login and reuse the session cookie
+}
+
+export class AdGuardAuthenticationError extends Error {
+  // got wraps errors thrown by its hooks (like a failed login) in a RequestError, but keeps their 'code'.
+  public readonly code = 'ERR_AGH_CREDENTIALS';
+
+  constructor(server: string, detail: string) {
+    super(`AdGuard Home server '${server}' rejected the configured username/password: ${detail}`);
+    this.name = 'AdGuardAuthenticationError';
+  }
+}
+
+// Whether a request failed because of its credentials: a failed login, or a 401/403 that logging in again didn't
+// fix. Judged per error, so an earlier rejection doesn't get the blame for a server that is down.
+function isRejectedCredentials(error: unknown): boolean {
+  const statusCode = (error instanceof RequestError) ? error.response?.statusCode : undefined;
+  return (error as { code?: string })?.code === 'ERR_AGH_CREDENTIALS' || statusCode === 401 || statusCode === 403;
 }
 
 export default class AdGuardHomeServer {
 
   private readonly aghApi: Got;
+  private readonly loginUrl: string;
   private readonly latest: AdGuardStatus = new AdGuardStatus();
+  private version: AdGuardVersion | undefined;
+  private versionChecked = false;
+  private sessionCookie: string | undefined;
+  private pendingLogin: Promise<void> | undefined;
+
+  // endpoint ('status', 'clients/update', ...) => request totals, for the metrics endpoint
+  public readonly requestStats = new Map<string, AdGuardRequestStats>();
+
+  // Writes are queued per resource ('blocked_services', 'client:<name>', ...). Each one re-reads the resource
+  // before changing it, so overlapping switches and timers build on each other instead of overwriting.
+  private readonly writeQueues = new Map<string, Promise<unknown>>();
+  private firstAttempts: Promise<boolean>[] | undefined;  // of the writes being started. See withFirstAttempt().
 
   constructor(
+    public readonly name: string,
     public readonly host: string,
     public readonly port: string,
     public readonly https: boolean,
     public readonly username: string,
     public readonly password: string,
+    public readonly authMode: string,
     public readonly timeout: number,
+    public readonly writeRetries: number,
+    public readonly writeRetryDelay: number,  // ms before the first retry. Doubles with each one after.
     public readonly log: Logger,
   ) {
     const prefixUrl = `http${https ? 's' : ''}://${host}:${port}/control`;
     const Authorization = `Basic ${Buffer.from(
       `${username}:${password}`,
     ).toString('base64')}`;
+    this.loginUrl = `${prefixUrl}/login`;
 
     this.aghApi = got.extend({
       prefixUrl: prefixUrl,
@@ -37,151 +172,690 @@ export default class AdGuardHomeServer {
       retry: {
         limit: 0,
       },
-      headers: {
+      headers: (authMode === AuthMode.Login) ? {} : {
         Authorization,
       },
       https: {
         rejectUnauthorized: false,
       },
+      hooks: {
+        beforeRequest: [
+          async (options: NormalizedOptions) => {
+            if (this.authMode === AuthMode.Login) {
+              if (!this.sessionCookie) {
+                await this.login();
+              }
+              options.headers.cookie = this.sessionCookie;
+            }
+          },
+        ],
+        afterResponse: [
+          // First in line, so the retry after a fresh login is counted as well.
+          async (response) => {
+            this.recordRequest(response.requestUrl, response.timings, response.statusCode >= 400);
+            return response;
+          },
+          async (response, retryWithMergedOptions) => {
+            if (response.statusCode !== 401 && response.statusCode !== 403) {
+              return response;
+            }
+
+            // The session expired or was revoked. Log in again and give the request one more try.
+            // (got removes this hook from the retry, so a second rejection falls through as an HTTP error.)
+            if (this.authMode === AuthMode.Login) {
+              this.log.debug(`AGH[${this.name}]: Session rejected with ${response.statusCode}. Logging in again...`);
+              this.sessionCookie = undefined;
+              await this.login();
+              return retryWithMergedOptions({});
+            }
+
+            return response;
+          },
+        ],
+        beforeError: [
+          (error) => {
+            // HTTP errors were counted along with their response.
+            if (!error.response) {
+              this.recordRequest(error.options.url, error.timings, true);
+            }
+            return error;
+          },
+        ],
+      },
     });
 
-    this.log.debug(`AdGuard Http client created: [${prefixUrl}]`);
+    this.log.debug(`AdGuard Http client created for '${name}' (${authMode} auth): [${prefixUrl}]`);
+  }
+
+  private recordRequest(url: string | URL, timings: Response['timings'] | undefined, failed: boolean) {
+    const endpoint = new URL(url.toString()).pathname.replace(/^.*?\/control\//, '');
+    const stats = this.requestStats.get(endpoint) ?? new AdGuardRequestStats();
+    this.requestStats.set(endpoint, stats);
+
+    // Timeouts and refused connections never get an 'end'.
+    const end = timings?.end ?? timings?.error ?? timings?.abort ?? new Date().getTime();
+    stats.requests++;
+    stats.seconds += timings ? (end - timings.start) / 1000 : 0;  // ms => s
+    stats.errors += failed ? 1 : 0;
   }
 
-  public async getCurrentStatus(getStatus: boolean, getDefaultServices: boolean, getClientServices: boolean)
-    : Promise<AdGuardStatus> {
+  private async login(): Promise<void> {
+    // Several requests may be waiting on a session at once. Only log in once for all of them.
+    if (!this.pendingLogin) {
+      this.pendingLogin = this.doLogin().finally(() => this.pendingLogin = undefined);
+    }
+    return this.pendingLogin;
+  }
+
+  private async doLogin(): Promise<void> {
+    this.log.debug(`AGH[${this.name}]: Logging in as '${this.username}'...`);
+    const response = await got.post(this.loginUrl, {
+      json: <LoginRequest>{ name: this.username, password: this.password },
+      timeout: this.timeout,
+      retry: { limit: 0 },
+      throwHttpErrors: false,
+      https: { rejectUnauthorized: false },
+    });
+
+    if (response.statusCode !== 200) {
+      throw new AdGuardAuthenticationError(this.name, `${response.statusCode} ${response.body}`.trim());
+    }
+
+    // Keep only the 'name=value' part of each cookie. Attributes like 'Path' and 'HttpOnly' aren't sent back.
+    const cookies = (response.headers['set-cookie'] ?? []).map((c) => c.split(';')[0]);
+    if (cookies.length === 0) {
+      throw new Error(`AdGuard Home server '${this.name}' did not return a session cookie from /control/login.`);
+    }
+
+    this.sessionCookie = cookies.join('; ');
+    this.log.debug(`AGH[${this.name}]: Logged in.`);
+  }
+
+  public async getCurrentStatus(query: AdGuardStatusQuery): Promise<AdGuardStatus> {
     const currentStatus = new AdGuardStatus;
+    currentStatus.server = this.name;
+    currentStatus.requestedAt = new Date().getTime();
     currentStatus.isAvailable = true;
+    currentStatus.isAuthorized = true;
 
-    // eslint-disable-next-line max-len
-    this.log.debug(`AGH: Querying AGHome server for current status: [${getStatus}, ${getDefaultServices}, ${getClientServices}]...`);
+    this.log.debug(`AGH[${this.name}]: Querying AGHome server for current status: ${JSON.stringify(query)}...`);
     let abortPromise = false;
     await Promise.all([
-      getStatus ? this.aghApi('status')
+      // Always read the status until we know which AGH version we are talking to.
+      (query.status || !this.versionChecked) ? this.aghApi('status')
         .json()
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        .then((body: any) => {
+        .then((body) => validateResponse<ServerStatusResponse>('status', body, RESPONSE_SHAPES.status))
+        .then((body) => {
+          this.checkVersion(body.version);
           if (!abortPromise) {
             this.latest.enabled = currentStatus.enabled = body.protection_enabled;
+            this.latest.protection_disabled_until = currentStatus.protection_disabled_until = this.getPauseExpiry(body);
           }
         })
         : Promise.resolve(),
 
-      getDefaultServices ? this.aghApi('blocked_services/get')
+      query.blockedServices ? this.getBlockedServices()
+        .then((body) => {
+          if (!abortPromise) {
+            this.latest.blocked_services = currentStatus.blocked_services = body.ids ?? [];
+            this.latest.blocked_services_schedule = currentStatus.blocked_services_schedule = body.schedule;
+          }
+        })
+        : Promise.resolve(),
+
+      query.clients ? this.getClients()
+        .then((clients) => {
+          if (!abortPromise) {
+            this.latest.clients = currentStatus.clients = clients;
+          }
+        })
+        : Promise.resolve(),
+
+      query.filtering ? this.getFiltering()
+        .then(({ filters, userRules }) => {
+          if (!abortPromise) {
+            this.latest.filters = currentStatus.filters = filters;
+            this.latest.user_rules = currentStatus.user_rules = userRules;
+          }
+        })
+        : Promise.resolve(),
+
+      query.parental ? this.aghApi('parental/status')
+        .json()
+        .then((body) => validateResponse<EnabledStatusResponse>('parental/status', body, RESPONSE_SHAPES.enabledStatus))
+        .then((body) => {
+          if (!abortPromise) {
+            this.latest.parental_enabled = currentStatus.parental_enabled = body.enabled;
+          }
+        })
+        : Promise.resolve(),
+
+      query.safeBrowsing ? this.aghApi('safebrowsing/status')
+        .json()
+        .then((body) => validateResponse<EnabledStatusResponse>('safebrowsing/status', body, RESPONSE_SHAPES.enabledStatus))
+        .then((body) => {
+          if (!abortPromise) {
+            this.latest.safebrowsing_enabled = currentStatus.safebrowsing_enabled = body.enabled;
+          }
+        })
+        : Promise.resolve(),
+
+      query.safeSearch ? this.getSafeSearch()
+        .then((safeSearch) => {
+          if (!abortPromise) {
+            this.latest.safe_search = currentStatus.safe_search = safeSearch;
+          }
+        })
+        : Promise.resolve(),
+
+      query.stats ? this.aghApi('stats')
         .json()
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        .then((body: any) => {
+        .then((body) => validateResponse<StatsResponse>('stats', body, RESPONSE_SHAPES.stats))
+        .then((body) => {
           if (!abortPromise) {
-            this.latest.blocked_services = currentStatus.blocked_services = body.ids;
+            const stats = new AdGuardStats();
+            stats.totalQueries = body.num_dns_queries;
+            stats.blockedQueries = body.num_blocked_filtering;
+            stats.avgProcessingTime = body.avg_processing_time * 1000; // s => ms
+            this.latest.stats = currentStatus.stats = stats;
           }
         })
         : Promise.resolve(),
 
-      getClientServices ? this.aghApi('clients')
+      query.blockedQueries ? this.aghApi('querylog', { searchParams: { response_status: 'blocked', limit: QUERY_LOG_LIMIT } })
         .json()
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        .then((body: any) => {
+        .then((body) => validateResponse<QueryLogResponse>('querylog', body, RESPONSE_SHAPES.queryLog))
+        .then((body) => {
           if (!abortPromise) {
-            this.latest.clients = currentStatus.clients = body.clients;
+            this.latest.blocked_queries = currentStatus.blocked_queries =
+              validateArray<QueryLogEntry>('querylog', body.data ?? [], RESPONSE_SHAPES.queryLogEntry);
+          }
+        })
+        : Promise.resolve(),
+
+      query.recentQueries ? this.aghApi('querylog', { searchParams: { limit: RECENT_QUERY_LIMIT } })
+        .json()
+        .then((body) => validateResponse<QueryLogResponse>('querylog', body, RESPONSE_SHAPES.queryLog))
+        .then((body) => {
+          if (!abortPromise) {
+            this.latest.recent_queries = currentStatus.recent_queries =
+              validateArray<QueryLogEntry>('querylog', body.data ?? [], RESPONSE_SHAPES.queryLogEntry);
           }
         })
         : Promise.resolve(),
     ])
       .catch((error) => {
         abortPromise = true;
-        this.log.debug('AGH: AGHome server is unreachable!');
+        if (isRejectedCredentials(error)) {
+          // The server answered, but we can't read anything from it. It's not down, but there's no status to
+          // go by either. Say so instead of calling it unreachable.
+          this.log.debug(`AGH[${this.name}]: AGHome server rejected our credentials!`);
+          currentStatus.isAvailable = undefined;
+          currentStatus.isAuthorized = false;
+          currentStatus.error = (error.response)
+            ? new AdGuardAuthenticationError(this.name, `${error.response.statusCode} ${JSON.stringify(error.response.body)}`)
+            : error;  // Login failures already carry the explanation.
+          return;
+        }
+        this.log.debug(`AGH[${this.name}]: AGHome server is unreachable!`);
         currentStatus.isAvailable = false;
         currentStatus.error = (error.response) ? error.response.body : error;
       })
       .then(() => {
-        this.log.debug('AGH: All requested statuses have been received.');
+        this.log.debug(`AGH[${this.name}]: All requested statuses have been received.`);
         return currentStatus;
       });
 
     return currentStatus;
   }
 
+  public get serverVersion(): AdGuardVersion | undefined {
+    return this.version;
+  }
+
+  private checkVersion(version: string | undefined) {
+    if (this.versionChecked) {
+      return;
+    }
+
+    this.versionChecked = true;
+    this.version = AdGuardVersion.parse(version);
+    if (!this.version) {
+      this.log.warn(`AGH[${this.name}]: Could not tell which version of AdGuard Home this is ('${version}'). Assuming the newest API.`);
+    } else if (!this.version.isAtLeast(MIN_SUPPORTED_VERSION)) {
+      this.log.warn(`AGH[${this.name}]: AdGuard Home ${this.version} is not supported. Please upgrade to `
+        + `v${MIN_SUPPORTED_VERSION} or newer. Some switches may not work.`);
+    } else {
+      this.log.info(`AGH[${this.name}]: Connected to AdGuard Home ${this.version}.`);
+    }
+  }
+
+  private supports(minVersion: string): boolean {
+    // Unknown versions ('edge', dev builds) are assumed to be current.
+    return !this.version || this.version.isAtLeast(minVersion);
+  }
+
+  private async getClients(): Promise<AdGuardClientConfig[]> {
+    return this.aghApi('clients')
+      .json()
+      .then((body) => validateResponse<ClientsResponse>('clients', body, RESPONSE_SHAPES.clients))
+      .then((body) => validateArray<AdGuardClientConfig>('clients', body.clients ?? [], RESPONSE_SHAPES.client));
+  }
+
+  private async getFiltering(): Promise<{ filters: AdGuardFilter[]; userRules: string[] }> {
+    return this.aghApi('filtering/status')
+      .json()
+      .then((body) => validateResponse<FilterStatusResponse>('filtering/status', body, RESPONSE_SHAPES.filtering))
+      .then((body) => {
+        // Allow lists and block lists share one namespace as far as switches are concerned.
+        const toFilters = (filters: FilterResponse[] | null, whitelist: boolean) =>
+          validateArray<FilterResponse>('filtering/status', filters ?? [], RESPONSE_SHAPES.filter)
+            .map((f) => Object.assign(new AdGuardFilter(), { url: f.url, name: f.name, enabled: f.enabled, whitelist: whitelist }));
+        const userRules = body.user_rules ?? [];
+        return {
+          filters: [...toFilters(body.filters, false), ...toFilters(body.whitelist_filters, true)],
+          userRules: Array.isArray(userRules) ? userRules : userRules.split('\n'),
+        };
+      });
+  }
+
+  private async getSafeSearch(): Promise<AdGuardSafeSearch> {
+    return this.aghApi('safesearch/status')
+      .json()
+      .then((body) => validateResponse<SafeSearchSettings>('safesearch/status', body, RESPONSE_SHAPES.enabledStatus))
+      .then((body) => {
+        // Versions before per-engine safe search only report 'enabled'.
+        const safeSearch = new AdGuardSafeSearch();
+        Object.keys(body).forEach((key) => {
+          if (key === 'enabled') {
+            safeSearch.enabled = body.enabled;
+          } else if (typeof body[key] === 'boolean') {
+            safeSearch.engines[key] = body[key];
+          }
+        });
+        return safeSearch;
+      });
+  }
+
+  private async getBlockedServices(): Promise<BlockedServicesResponse> {
+    if (this.supports(API_VERSIONS.blockedServicesGet)) {
+      return this.aghApi('blocked_services/get')
+        .json()
+        .then((body) => validateResponse<BlockedServicesResponse>('blocked_services/get', body, RESPONSE_SHAPES.blockedServices));
+    }
+
+    // Older versions return a bare list of IDs, and have no schedule.
+    return this.aghApi('blocked_services/list')
+      .json()
+      .then((body) => ({ ids: validateArray<string>('blocked_services/list', body) }));
+  }
+
+  // Every service AdGuard Home can block, and the groups they belong to.
+  public async getServiceCatalog(): Promise<{ services: BlockedServiceInfo[]; groups: string[] }> {
+    return this.aghApi('blocked_services/all')
+      .json()
+      .then((body) => validateResponse<BlockedServicesAllResponse>('blocked_services/all', body, RESPONSE_SHAPES.blockedServicesAll))
+      .then((body) => ({
+        services: validateArray<BlockedServiceInfo>('blocked_services/all', body.blocked_services ?? [], RESPONSE_SHAPES.blockedService),
+        groups: (body.groups ?? []).map((group) => group.id),
+      }))
+      .catch((error) => {
+        if (error.response?.statusCode !== 404) {
+          throw error;
+        }
+        // Older versions only list the IDs.
+        this.log.debug(`AGH[${this.name}]: No 'blocked_services/all'. Using 'blocked_services/services' instead.`);
+        return this.aghApi('blocked_services/services')
+          .json()
+          .then((body) => ({
+            services: validateArray<string>('blocked_services/services', body).map((id) => ({ id, name: id })),
+            groups: [],
+          }));
+      });
+  }
+
   public async postGlobal(enabled: boolean): Promise<boolean> {
-    this.log.info(`AGH: Setting Global status to: ${enabled}`);
+    this.log.info(`AGH[${this.name}]: Setting Global status to: ${enabled}`);
 
-    return this.doPostWrapper(
+    return this.doPostWrapper(this.enqueue('protection', () =>
       this.aghApi.post('dns_config', {
-        json: { protection_enabled: enabled },
+        json: <DnsConfigRequest>{ protection_enabled: enabled },
         headers: { 'X-homebridge-aghp-info': `global - ${enabled}` },
       }),
-    );
+    ));
   }
 
-  public async postGlobalServices(enabled: boolean, services: string[]): Promise<boolean> {
-    this.log.info(`AGH: Setting Global Services status to: ${enabled} - [${services.join(',')}]`);
+  public async postProtection(enabled: boolean, duration: number): Promise<boolean> {
+    if (!this.supports(API_VERSIONS.protectionPause)) {
+      // No server-side pause. The switch's own timer will restore protection instead.
+      this.log.debug(`AGH[${this.name}]: AdGuard Home ${this.version} can not pause protection. Using 'dns_config' instead.`);
+      return this.postGlobal(enabled);
+    }
 
-    const newServiceList = enabled ? this.merge(this.latest.blocked_services, services)
-      : this.remove(this.latest.blocked_services, services);
-    return this.doPostWrapper(
-      this.aghApi.put('blocked_services/update', {
-        json: { ids: newServiceList },
-        headers: { 'X-homebridge-aghp-info': `global-services - ${enabled} [${services.join(',')}]` },
+    this.log.info(`AGH[${this.name}]: Setting Global status to: ${enabled}${duration ? ` for ${duration / 1000} seconds` : ''}`);
+
+    // AGH restores protection on its own once 'duration' (ms) has passed.
+    return this.doPostWrapper(this.enqueue('protection', () =>
+      this.aghApi.post('protection', {
+        json: <ProtectionRequest>{ enabled: enabled, duration: duration },
+        headers: { 'X-homebridge-aghp-info': `protection - ${enabled} [${duration}]` },
       }),
-    );
+    ));
+  }
+
+  public async postGlobalServices(enabled: boolean, services: string[], schedule?: AdGuardServicesSchedule): Promise<boolean> {
+    this.log.info(`AGH[${this.name}]: Setting Global Services status to: ${enabled} - [${services.join(',')}]`);
+
+    return this.doPostWrapper(this.enqueue('blocked_services', async () => {
+      // The last poll may be out of date. Build on what the server has right now.
+      const current = await this.getBlockedServices();
+      this.latest.blocked_services = current.ids ?? [];
+      this.latest.blocked_services_schedule = current.schedule;
+
+      const newServiceList = enabled ? this.merge(this.latest.blocked_services, services)
+        : this.remove(this.latest.blocked_services, services);
+      if (!this.supports(API_VERSIONS.blockedServicesGet)) {
+        if (schedule) {
+          this.log.warn(`AGH[${this.name}]: AdGuard Home ${this.version} does not support blocked services schedules. Ignoring it.`);
+        }
+        return this.aghApi.post('blocked_services/set', {
+          json: newServiceList,
+          headers: { 'X-homebridge-aghp-info': `global-services - ${enabled} [${services.join(',')}]` },
+        });
+      }
+
+      // 'blocked_services/update' replaces the schedule along with the list. Send back the current one unless
+      // the switch brings its own.
+      const newSchedule = (enabled && schedule) ? schedule : this.latest.blocked_services_schedule;
+      return this.aghApi.put('blocked_services/update', {
+        json: <BlockedServicesUpdateRequest>(newSchedule ? { ids: newServiceList, schedule: newSchedule } : { ids: newServiceList }),
+        headers: { 'X-homebridge-aghp-info': `global-services - ${enabled} [${services.join(',')}]` },
+      });
+    }));
+  }
+
+  public async postFilters(enabled: boolean, filters: string[]): Promise<boolean> {
+    this.log.info(`AGH[${this.name}]: Setting Filter List status to: ${enabled} - [${filters.join(',')}]`);
+
+    const postList = filters.map((f) => {
+      const filter = this.findFilter(this.latest.filters, f);
+      if (!filter) {
+        return Promise.reject(new Error(`AGH[${this.name}]: Filter list '${f}' does not exist.`));
+      }
+      this.log.debug(`AGH: creating a promise to post to 'filtering/set_url' for filter ${filter.name}`);
+      return this.enqueue(`filter:${filter.url}`, () =>
+        this.aghApi.post('filtering/set_url', {
+          json: <FilterSetUrlRequest>{
+            url: filter.url, whitelist: filter.whitelist, data: { name: filter.name, url: filter.url, enabled },
+          },
+          headers: { 'X-homebridge-aghp-info': `filters - ${enabled} [${filter.name}]` },
+        }),
+      );
+    });
+
+    return this.doPostWrapper(Promise.allSettled(postList));
+  }
+
+  public async postRules(enabled: boolean, rules: string[]): Promise<boolean> {
+    this.log.info(`AGH[${this.name}]: ${enabled ? 'Adding' : 'Removing'} User Rules: [${rules.join(',')}]`);
+
+    return this.doPostWrapper(this.enqueue('user_rules', async () => {
+      const current = await this.getFiltering();
+      this.latest.filters = current.filters;
+      this.latest.user_rules = current.userRules;
+
+      // Only ever add or remove our own rules. Everything else the user has written stays as it is.
+      const newRuleList = enabled ? this.merge(this.latest.user_rules, rules) : this.remove(this.latest.user_rules, rules);
+      return this.aghApi.post('filtering/set_rules', {
+        json: <SetRulesRequest>{ rules: newRuleList },
+        headers: { 'X-homebridge-aghp-info': `rules - ${enabled} [${rules.length}]` },
+      });
+    }));
+  }
+
+  public async postFeature(enabled: boolean, feature: string, engines: string[] = []): Promise<boolean> {
+    this.log.info(`AGH[${this.name}]: Setting Global ${feature} status to: ${enabled}`
+      + `${(engines.length > 0) ? ` - [${engines.join(',')}]` : ''}`);
+
+    switch (feature) {
+      case GlobalFeature.Parental:
+      case GlobalFeature.SafeBrowsing:
+        return this.doPostWrapper(this.enqueue(feature, () =>
+          this.aghApi.post(`${feature}/${enabled ? 'enable' : 'disable'}`, {
+            headers: { 'X-homebridge-aghp-info': `${feature} - ${enabled}` },
+          }),
+        ));
+
+      case GlobalFeature.SafeSearch: {
+        if (!this.supports(API_VERSIONS.safeSearchSettings)) {
+          if (engines.length > 0) {
+            this.log.warn(`AGH[${this.name}]: AdGuard Home ${this.version} can not choose safe search engines. Switching all of them.`);
+          }
+          return this.doPostWrapper(this.enqueue(feature, () =>
+            this.aghApi.post(`safesearch/${enabled ? 'enable' : 'disable'}`, {
+              headers: { 'X-homebridge-aghp-info': `safesearch - ${enabled}` },
+            }),
+          ));
+        }
+
+        return this.doPostWrapper(this.enqueue(feature, async () => {
+          const current = this.latest.safe_search = await this.getSafeSearch();
+
+          // Without an engine list, the switch controls safe search as a whole. With one, it only
+          // controls those engines, and leaves the rest as they are.
+          const settings: SafeSearchSettings = { ...current.engines, enabled: current.enabled };
+          if (engines.length === 0) {
+            settings.enabled = enabled;
+          } else {
+            engines.forEach((engine) => settings[engine] = enabled);
+            settings.enabled = enabled
+              || (current.enabled && Object.keys(current.engines).some((e) => !engines.includes(e) && current.engines[e]));
+          }
+          return this.aghApi.put('safesearch/settings', {
+            json: settings,
+            headers: { 'X-homebridge-aghp-info': `safesearch - ${enabled} [${engines.join(',')}]` },
+          });
+        }));
+      }
+    }
+
+    this.log.error(`AGH[${this.name}]: Unknown global feature '${feature}'.`);
+    return false;
+  }
+
+  private getPauseExpiry(statusBody: ServerStatusResponse): number | undefined {
+    if (statusBody.protection_enabled !== false) {
+      return undefined;
+    }
+
+    // Some versions report when the pause ends. Others only report how much of it is left.
+    if (statusBody.protection_disabled_until) {
+      const until = Date.parse(statusBody.protection_disabled_until);
+      return isNaN(until) ? undefined : until;
+    } else if (statusBody.protection_disabled_duration) {
+      return new Date().getTime() + statusBody.protection_disabled_duration;
+    }
+    return undefined;
+  }
+
+  public findFilter(filterList: AdGuardFilter[], filter: string): AdGuardFilter | undefined {
+    // Filter lists can be referred to by name or by URL.
+    return filterList.find((f) => f.name === filter) ?? filterList.find((f) => f.url === filter);
   }
 
   public async postClients(enabled: boolean, clients: string[],
-    readClientDataAsync: (key: string) => Promise<AdGuardClientConfig>,
-    writeClientDataAsync: (key: string, data: AdGuardClientConfig) => Promise<void>) {
-    this.log.info(`AGH: Setting Client status to: ${enabled} - [${clients.join(',')}]`);
+    readSnapshotAsync: (key: string) => Promise<ClientSnapshot | null>,
+    writeSnapshotAsync: (key: string, snapshot: ClientSnapshot) => Promise<void>,
+    removeSnapshotAsync: (key: string) => Promise<void>) {
+    this.log.info(`AGH[${this.name}]: Setting Client status to: ${enabled} - [${clients.join(',')}]`);
 
     const clientList = this.expandTags(clients);
-    const postList = clientList.map((cname) => this.latest.clients.find((c) => c.name === cname))
-      .filter((cc) => !!cc)
-      .map(async (clientConfig) => {
-        let newClientConfig: AdGuardClientConfig;
-        if (enabled) {
-          // If re-enabling blocking, try to restore previous config. Fall back on 'enabling'
-          // as best as we can with current config.
-          newClientConfig = (await readClientDataAsync(clientConfig.name))
-            ?? this.setBlockingConfig(clientConfig, true);
-        } else {
-          // If disabling blocking, save the current config and turn off everything.
-          if (this.isBlockingEnabled(clientConfig)) { // Only save the config if it actually turns on blocking.
-            await writeClientDataAsync(clientConfig.name, clientConfig);
+    const postList = clientList.filter((cname) => this.latest.clients.some((c) => c.name === cname))
+      .map((cname) => {
+        // Read once, for every attempt. The snapshot is only removed once it has been written back.
+        let pendingSnapshot: Promise<ClientSnapshot | null> | undefined;
+        return this.enqueue(`client:${cname}`, async () => {
+          const clientConfig = await this.getClient(cname);
+          let newClientConfig: AdGuardClientConfig;
+          let snapshot: ClientSnapshot | null = null;
+          if (enabled) {
+            // If re-enabling blocking, try to restore previous config. Fall back on 'enabling'
+            // as best as we can with current config.
+            snapshot = await (pendingSnapshot ??= readSnapshotAsync(clientConfig.name));
+            newClientConfig = snapshot ? this.restoreClientConfig(snapshot, clientConfig)
+              : this.setBlockingConfig(clientConfig, true);
+          } else {
+            // If disabling blocking, save the current config and turn off everything.
+            this.log.info(`Turn off blocking for '${clientConfig.name}'.`);
+            newClientConfig = this.setBlockingConfig(clientConfig, false);
+            if (this.isBlockingEnabled(clientConfig)) { // Only save the config if it actually turns on blocking.
+              await writeSnapshotAsync(clientConfig.name,
+                { savedAt: new Date().getTime(), client: clientConfig, applied: newClientConfig });
+            }
           }
-          newClientConfig = this.setBlockingConfig(clientConfig, false);
-        }
-        const newConfigPayload = { name: clientConfig.name, data: newClientConfig };
-        this.log.debug(`AGH: creating a promise to post to 'clients/update' for client ${clientConfig.name}`);
-        return this.aghApi.post('clients/update', {
-          json: newConfigPayload,
-          headers: { 'X-homebridge-aghp-info': `clients - ${enabled} [${clientConfig.name}]` },
+          const newConfigPayload: ClientUpdateRequest = { name: clientConfig.name, data: newClientConfig };
+          this.log.debug(`AGH: creating a promise to post to 'clients/update' for client ${clientConfig.name}`);
+          const response = await this.aghApi.post('clients/update', {
+            json: newConfigPayload,
+            headers: { 'X-homebridge-aghp-info': `clients - ${enabled} [${clientConfig.name}]` },
+          });
+          if (snapshot) {
+            await removeSnapshotAsync(clientConfig.name);
+          }
+          return response;
         });
       });
 
     return this.doPostWrapper(Promise.allSettled(postList));
   }
 
-  public async postClientServices(enabled: boolean, clients: string[], services: string[]): Promise<boolean> {
-    this.log.info(`AGH: ${enabled ? 'Blocking' : 'Unblocking'} Client Services for: ${clients.join(',')}`);
+  private restoreClientConfig(snapshot: ClientSnapshot, current: AdGuardClientConfig): AdGuardClientConfig {
+    // Start from the client as it is now. Only blocking settings that are still the way we left them are
+    // put back. Anything changed in the meantime (new IDs, tags, upstreams, or blocking set by hand) stays.
+    const applied = snapshot.applied ?? this.setBlockingConfig(snapshot.client, false);
+    const restored: AdGuardClientConfig = JSON.parse(JSON.stringify(current));
+    const isSame = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+    CLIENT_BLOCKING_FIELDS.forEach((field) => {
+      if (!isSame(current[field], applied[field])) {
+        this.log.warn(`Restoring '${current.name}': '${field}' was changed after blocking was turned off. Keeping the current value.`);
+      } else if (field in snapshot.client) {
+        restored[field] = JSON.parse(JSON.stringify(snapshot.client[field]));
+      } else {
+        delete restored[field];
+      }
+    });
+
+    const changed = Object.keys({ ...snapshot.client, ...current })
+      .filter((field) => !CLIENT_BLOCKING_FIELDS.includes(field) && !isSame(snapshot.client[field], current[field]));
+    if (changed.length > 0) {
+      this.log.info(`Restoring '${current.name}': [${changed.join(',')}] changed since the config was saved on `
+        + `${new Date(snapshot.savedAt)}. Keeping the current values.`);
+    }
+
+    this.log.info(`Turn on blocking for '${current.name}': Restoring saved config.`);
+    return restored;
+  }
+
+  public async postClientServices(enabled: boolean, clients: string[], services: string[],
+    schedule?: AdGuardServicesSchedule): Promise<boolean> {
+    this.log.info(`AGH[${this.name}]: ${enabled ? 'Blocking' : 'Unblocking'} Client Services for: ${clients.join(',')}`);
     this.log.info(`     Services: [${services.join(',')}]`);
 
     const clientList = this.expandTags(clients);
-    const postList = clientList.map((cname) => this.latest.clients.find((c) => c.name === cname))
-      .filter((cc) => !!cc)
-      .map(async (clientConfig) => {
+    const postList = clientList.filter((cname) => this.latest.clients.some((c) => c.name === cname))
+      .map((cname) => this.enqueue(`client:${cname}`, async () => {
+        const clientConfig = await this.getClient(cname);
         const newServiceList = enabled ?
-          this.merge(clientConfig.blocked_services, services)
-          : this.remove(clientConfig.blocked_services, services);
+          this.merge(clientConfig.blocked_services ?? [], services)
+          : this.remove(clientConfig.blocked_services ?? [], services);
         const newData = JSON.parse(JSON.stringify(clientConfig));
         newData.blocked_services = newServiceList;
-        const newConfig = { name: clientConfig.name, data: newData };
+        if (enabled && schedule) {
+          // Otherwise the client's own schedule is carried over along with the rest of its config.
+          newData.blocked_services_schedule = schedule;
+        }
+        const newConfig: ClientUpdateRequest = { name: clientConfig.name, data: newData };
         this.log.debug(`AGH: creating a promise to post to 'clients/update' for client ${clientConfig.name}`);
         return this.aghApi.post('clients/update', {
           json: newConfig,
           headers: { 'X-homebridge-aghp-info': `client-services - ${enabled} [${clientConfig.name}]` },
         });
-      });
+      }));
 
     return this.doPostWrapper(Promise.allSettled(postList));
   }
 
+  private async getClient(name: string): Promise<AdGuardClientConfig> {
+    // The last poll may be out of date. Build on what the server has right now.
+    this.latest.clients = await this.getClients();
+    const clientConfig = this.latest.clients.find((c) => c.name === name);
+    if (!clientConfig) {
+      throw new Error(`AGH[${this.name}]: Client '${name}' no longer exists.`);
+    }
+    return clientConfig;
+  }
+
+  /**
+   * Starts the writes 'write' makes, and also tells when each of them has been tried once. Retries can take longer
+   * than HomeKit waits for an answer, so callers can answer after the first try and let the retries carry on.
+   * 'attempted' is true when every first try succeeded.
+   */
+  public withFirstAttempt<T>(write: () => Promise<T>): { result: Promise<T>; attempted: Promise<boolean> } {
+    // Writes are queued before 'write' first awaits anything, so they are all collected here.
+    const attempts: Promise<boolean>[] = this.firstAttempts = [];
+    try {
+      const result = write();
+      return { result, attempted: Promise.all(attempts).then((ok) => ok.every((o) => o)) };
+    } finally {
+      this.firstAttempts = undefined;
+    }
+  }
+
+  private async enqueue<T>(resource: string, operation: () => Promise<T>): Promise<T> {
+    let attempted: (ok: boolean) => void = () => undefined;
+    this.firstAttempts?.push(new Promise<boolean>((resolve) => attempted = resolve));
+
+    // Run after whatever is already queued for this resource, whether that succeeded or not.
+    const previous = this.writeQueues.get(resource) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(() => this.withRetries(resource, operation, attempted));
+    this.writeQueues.set(resource, next);
+    next.catch(() => undefined).finally(() => {
+      if (this.writeQueues.get(resource) === next) {
+        this.writeQueues.delete(resource);
+      }
+    });
+    return next;
+  }
+
+  private async withRetries<T>(resource: string, operation: () => Promise<T>, attempted: (ok: boolean) => void): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await operation();
+        attempted(true);
+        return result;
+      } catch (error) {
+        attempted(false);
+        if (!this.isRetryable(error) || attempt >= this.writeRetries) {
+          throw error;
+        }
+        const delay = this.writeRetryDelay * Math.pow(2, attempt);
+        this.log.info(`AGH[${this.name}]: Writing '${resource}' failed (${error.response?.statusCode ?? error.code}). `
+          + `Retrying in ${delay}ms...`);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private isRetryable(error: unknown): error is RequestError {
+    // Timeouts, dropped connections and server errors may clear up. Rejected credentials, bad requests
+    // and answers we can't make sense of won't.
+    if (!(error instanceof RequestError) || isRejectedCredentials(error)) {
+      return false;
+    }
+    return (error.response === undefined) || (error.response.statusCode >= 500);
+  }
+
   private async doPostWrapper(post: Promise<Response<string>>
     | Promise<PromiseSettledResult<Response<string>>[]>): Promise<boolean> {
     // Should type-check the array items with '.every'... but  we know we're only going to get an array
@@ -197,7 +871,7 @@ export default class AdGuardHomeServer {
           const failedResponses = failed.map(p => p.reason); // Get actual results out of PromiseSettledResult<T>
           failedResponses.forEach((r) => {
             // I don't know what the shape of 'reason' is. Let's just see what it says.
-            this.log.warn('AGH: Promise.allSettled request failed.');
+            this.log.warn(`AGH[${this.name}]: Promise.allSettled request failed.`);
             this.log.error(r);
           });
           return false;
@@ -212,7 +886,7 @@ export default class AdGuardHomeServer {
         return true;
       }
 
-      this.log.info(`AGH: Request returned non-200 status code: ${result.statusCode}`);
+      this.log.info(`AGH[${this.name}]: Request returned non-200 status code: ${result.statusCode}`);
       if (result.request) {
         this.log.debug(`AGH: Headers == ${result.request.headers}`);
       }
@@ -220,7 +894,11 @@ export default class AdGuardHomeServer {
       return false;
     })
       .catch((error) => {
-        this.log.info(`AGH: Request failed with an error: ${error.code}`);
+        if (isRejectedCredentials(error)) {
+          this.log.error(`AGH[${this.name}]: Request failed because the server rejected the configured username/password.`);
+          return false;
+        }
+        this.log.info(`AGH[${this.name}]: Request failed with an error: ${error.code}`);
         if (error.request) {
           this.log.debug(`AGH: Headers == ${error.request.headers}`);
         }
@@ -231,6 +909,14 @@ export default class AdGuardHomeServer {
     return success;
   }
 
+  // Whether a query log entry came from one of 'clientList' (client names, IPs/IDs or '@tags').
+  public isFromClient(entry: QueryLogEntry, clientList: string[]): boolean {
+    const names = this.expandTags(clientList);
+    const ids = this.latest.clients.filter((c) => names.includes(c.name)).flatMap((c) => c.ids ?? []);
+    const seenAs = [entry.client_info?.name, entry.client, entry.client_id].filter((id): id is string => !!id);
+    return seenAs.some((id) => names.includes(id) || ids.includes(id));
+  }
+
   public expandTags(clientList: string[]): string[] {
     const newClientList: string[] = [];
 
@@ -240,7 +926,7 @@ export default class AdGuardHomeServer {
 
     clientList.forEach((c) => {
       if (c.startsWith('@')) {
-        this.latest.clients.filter((cstat) => cstat.tags.includes(c.substring(1))).forEach((exp) => {
+        this.latest.clients.filter((cstat) => cstat.tags?.includes(c.substring(1))).forEach((exp) => {
           if (!newClientList.includes(exp.name)) {
             newClientList.push(exp.name);
           }
@@ -276,7 +962,7 @@ export default class AdGuardHomeServer {
     // All these need to be turned off to qualify as disabled.
     let isBlocking: boolean = (clientStatus.use_global_settings === true);
     isBlocking ||= !ignoreServices && (clientStatus?.use_global_blocked_services === true);
-    isBlocking ||= !ignoreServices && (clientStatus?.blocked_services?.length > 0);
+    isBlocking ||= !ignoreServices && ((clientStatus?.blocked_services?.length ?? 0) > 0);
     isBlocking ||= (clientStatus.filtering_enabled === true);
     isBlocking ||= (clientStatus.parental_enabled === true);
     isBlocking ||= (clientStatus.safebrowsing_enabled === true);
@@ -302,11 +988,10 @@ export default class AdGuardHomeServer {
         this.log.info(`Turn on blocking for '${clientConfig.name}':`
           + 'No saved config but already enabled - decide on global settings.');
         newCfg.use_global_settings = clientConfig.use_global_settings || !this.isBlockingEnabled(clientConfig, true);
-        newCfg.use_global_blocked_services = (clientConfig?.blocked_services?.length > 0);
+        newCfg.use_global_blocked_services = ((clientConfig?.blocked_services?.length ?? 0) > 0);
       }
     } else {
       // Unblocking - 'unset' everything.
-      this.log.info(`Turn of blocking for '${clientConfig.name}'.`);
       newCfg.use_global_settings = false;
       newCfg.filtering_enabled = false;
       newCfg.parental_enabled = false;
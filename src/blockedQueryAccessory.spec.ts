@@ -0,0 +1,132 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { API, Service } from 'homebridge';
+import AGH, { AdGuardStatus, AuthMode } from './adguardhome';
+import AGHBlockedQueries from './blockedQueryAccessory';
+import MockAdGuardHome from './mocks/mockAdGuardHome';
+import { createAccessory, createMockApi, createMockLogger, createMockPlatform } from './mocks/homebridge';
+
+// Lets file I/O finish while timers are faked.
+const realSetTimeout = setTimeout;
+
+describe('AdGuardHomeBlockedQuerySensor', () => {
+  const mock = new MockAdGuardHome();
+  let storagePath: string;
+  let api: API;
+  let agh: AGH;
+
+  const readStatus = async (sensor?: AGHBlockedQueries) => {
+    const status = new Map<string, AdGuardStatus>();
+    status.set(agh.name, await agh.getCurrentStatus(sensor?.statusQuery ?? { blockedQueries: true, clients: true }));
+    return status;
+  };
+
+  const createSensor = async (config: Record<string, unknown>) =>
+    new AGHBlockedQueries(createMockPlatform(api), createAccessory(api, { name: 'Kids Blocked', ...config }), await readStatus(), [agh]);
+
+  const motionDetected = (sensor: AGHBlockedQueries): boolean =>
+    (sensor['service'] as Service).getCharacteristic(api.hap.Characteristic.MotionDetected).value as boolean;
+
+  beforeAll(async () => {
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.stop();
+  });
+
+  beforeEach(() => {
+    mock.reset();
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'agh-plus-'));
+    api = createMockApi(storagePath);
+    agh = new AGH('default', '127.0.0.1', `${mock.port}`, false, 'user', 'pass', AuthMode.Basic, 500, 2, 10, createMockLogger());
+    // Motion is reset on a timer. The clock keeps running, so each new query is logged after the last.
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask', 'Date'] });
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  it('detects motion for new blocked queries, but not for those already in the log', async () => {
+    mock.addBlockedQuery('192.168.1.20', 'ads.example.com', 60);
+    const sensor = await createSensor({});
+    expect(motionDetected(sensor)).toBe(false);
+
+    mock.addBlockedQuery('192.168.1.20', 'tracker.example.com');
+    sensor.update(await readStatus(sensor));
+    expect(motionDetected(sensor)).toBe(true);
+  });
+
+  it('stops detecting motion after motionDuration', async () => {
+    const sensor = await createSensor({ motionDuration: 5 });
+
+    mock.addBlockedQuery('192.168.1.20', 'ads.example.com');
+    sensor.update(await readStatus(sensor));
+    expect(motionDetected(sensor)).toBe(true);
+
+    jest.advanceTimersByTime(5000);
+    expect(motionDetected(sensor)).toBe(false);
+  });
+
+  it('only reacts to the configured clients, by name, tag or ID', async () => {
+    mock.addClient('Tablet', { ids: ['192.168.1.30'], tags: ['user_child'] });
+    mock.addClient('Laptop', { ids: ['192.168.1.40'] });
+    const sensor = await createSensor({ clients: '@user_child' });
+
+    mock.addBlockedQuery('192.168.1.40', 'ads.example.com');
+    sensor.update(await readStatus(sensor));
+    expect(motionDetected(sensor)).toBe(false);
+
+    mock.addBlockedQuery('192.168.1.30', 'ads.example.com');
+    sensor.update(await readStatus(sensor));
+    expect(motionDetected(sensor)).toBe(true);
+  });
+
+  it('only reacts to the configured domains and services', async () => {
+    const sensor = await createSensor({ domains: 'example.com', services: 'tiktok' });
+
+    // A second ago, so the query below is logged after them even within the same millisecond.
+    mock.addBlockedQuery('192.168.1.20', 'ads.example.org', 1, { reason: 'FilteredBlockedService', service_name: 'tiktok' });
+    mock.addBlockedQuery('192.168.1.20', 'ads.example.com', 1, { reason: 'FilteredBlackList' });
+    sensor.update(await readStatus(sensor));
+    expect(motionDetected(sensor)).toBe(false);
+
+    mock.addBlockedQuery('192.168.1.20', 'v.example.com', 0, { reason: 'FilteredBlockedService', service_name: 'tiktok' });
+    sensor.update(await readStatus(sensor));
+    expect(motionDetected(sensor)).toBe(true);
+  });
+
+  it('presses a button when configured as one', async () => {
+    const sensor = await createSensor({ eventType: 'button' });
+    const event = (sensor['service'] as Service).getCharacteristic(api.hap.Characteristic.ProgrammableSwitchEvent);
+    const sendEvent = jest.spyOn(event, 'sendEventNotification');
+
+    mock.addBlockedQuery('192.168.1.20', 'ads.example.com');
+    mock.addBlockedQuery('192.168.1.21', 'ads.example.com');
+    sensor.update(await readStatus(sensor));
+
+    expect(sendEvent).toHaveBeenCalledTimes(1);
+    expect(sendEvent).toHaveBeenCalledWith(api.hap.Characteristic.ProgrammableSwitchEvent.SINGLE_PRESS);
+  });
+
+  it('does not replay old blocks after a restart', async () => {
+    const sensor = await createSensor({});
+    mock.addBlockedQuery('192.168.1.20', 'ads.example.com');
+    sensor.update(await readStatus(sensor));
+    expect(motionDetected(sensor)).toBe(true);
+    await new Promise((resolve) => realSetTimeout(resolve, 50));  // Let the last seen entry be saved.
+    expect(fs.existsSync(`${storagePath}/agh_plus/Kids_Blocked/lastBlocked`)).toBe(true);
+
+    const restarted = await createSensor({});
+    restarted.update(await readStatus(restarted));
+    expect(motionDetected(restarted)).toBe(false);
+  });
+
+  it('rejects unknown event types', async () => {
+    await expect(createSensor({ eventType: 'doorbell' })).rejects.toThrow();
+  });
+});
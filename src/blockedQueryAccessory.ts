@@ -0,0 +1,201 @@
+import { Service, PlatformAccessory, Characteristic, Logger } from 'homebridge';
+import fs_sync, { promises as fs } from 'fs';
+import { AdGuardHomePlus } from './platform';
+import AGH, { AdGuardStatus as AGHStatus, AdGuardStatusQuery, QueryLogEntry } from './adguardhome';
+
+// 'eventType' values. A 'const enum' has no lookup object, so the ctor compares the config to each one.
+export const enum BlockedQueryEvent {
+  Motion = 'motion',  // MotionSensor that detects motion for a while
+  Button = 'button',  // StatelessProgrammableSwitch that is 'pressed' once
+}
+
+/**
+ * Blocked Query Sensor
+ * Watches the blocked entries in AdGuard Home's query log ('/control/querylog') and fires a HomeKit event when
+ * a new one turns up. Entries can be narrowed down to clients (or '@tags'), domains and blocked services.
+ *
+ * The newest entry seen on each server is saved, so a restart only fires for what was blocked since.
+ */
+export default class AdGuardHomeBlockedQuerySensor {
+  public get name(): string {
+    return this.accessoryName;
+  }
+
+  public get statusQuery(): AdGuardStatusQuery {
+    // Clients are needed to tell which IDs belong to a named client.
+    return { blockedQueries: true, clients: this.clients.length > 0 };
+  }
+
+  private readonly Characteristic: typeof Characteristic;
+  private readonly accessoryName: string;
+  private readonly eventType: BlockedQueryEvent;
+  private readonly clients: string[];
+  private readonly domains: string[];
+  private readonly services: string[];
+  private readonly motionDuration: number;  // ms
+  private readonly lastSeenFile: string;
+  private readonly lastSeen: Map<string, number>;  // server => time of the newest entry seen, ms since epoch
+  private readonly service: Service;
+  private readonly log: Logger;
+  private motionTimer: NodeJS.Timeout | undefined;
+
+  constructor(
+    private readonly platform: AdGuardHomePlus,
+    private readonly accessory: PlatformAccessory,
+    private readonly initialStatus: Map<string, AGHStatus>,
+    private readonly servers: AGH[],
+  ) {
+    const config = accessory.context.config;
+    this.Characteristic = this.platform.Characteristic;
+    this.accessoryName = config['name'];
+    this.eventType = (config['eventType'] || BlockedQueryEvent.Motion).trim().toLowerCase();
+    this.clients = (config['clients'] === undefined) ? [] : config['clients'].split(',').map((c) => c.trim()).filter((c) => !!c);
+    this.domains = (config['domains'] === undefined) ? []
+      : config['domains'].split(',').map((d) => d.trim().toLowerCase().replace(/^\*?\./, '')).filter((d) => !!d);
+    this.services = (config['services'] === undefined) ? [] : config['services'].split(',').map((s) => s.trim()).filter((s) => !!s);
+    this.motionDuration = (config['motionDuration'] ?? 10) * 1000;  // s => ms
+    this.log = platform.log;
+
+    if (this.eventType !== BlockedQueryEvent.Motion && this.eventType !== BlockedQueryEvent.Button) {
+      const msg = `Sensor '${this.accessoryName}' has unknown event type '${config['eventType']}'. Use 'motion' or 'button'.`;
+      this.log.error(msg);
+      throw new Error(msg);
+    }
+
+    const storageRoot = this.platform.api.user.storagePath() + '/agh_plus/' + this.accessoryName.replace(/([^a-zA-Z0-9]+)/g, '_');
+    this.lastSeenFile = `${storageRoot}/lastBlocked`;
+    try {
+      fs_sync.mkdirSync(storageRoot, { recursive: true });
+    } catch (err) {
+      this.log.warn(`Error creating state directory for '${this.accessoryName}'!`, err);
+    }
+    this.lastSeen = this.readLastSeen();
+
+    this.log.info(`Initializing AdGuard Home Blocked Query Sensor ${this.accessoryName} for servers `
+      + `[${this.servers.map((agh) => agh.name).join(',')}]...`);
+
+    this.accessory.getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.Characteristic.Manufacturer, config['manufacturer'] || 'AdGuard Home')
+      .setCharacteristic(this.Characteristic.Model, config['model'] || 'AdGuard Home Blocked Queries')
+      .setCharacteristic(this.Characteristic.SerialNumber, config['serial-number'] || '123-456-789')
+      .setCharacteristic(this.Characteristic.Name, this.accessoryName)
+      .setCharacteristic(this.Characteristic.ConfiguredName, this.accessoryName);
+
+    // A cached accessory may still carry the other kind of service.
+    const [serviceType, otherType] = (this.eventType === BlockedQueryEvent.Motion)
+      ? [this.platform.Service.MotionSensor, this.platform.Service.StatelessProgrammableSwitch]
+      : [this.platform.Service.StatelessProgrammableSwitch, this.platform.Service.MotionSensor];
+    const stale = this.accessory.getService(otherType);
+    if (stale) {
+      this.accessory.removeService(stale);
+    }
+    this.service = this.accessory.getService(serviceType) || this.accessory.addService(serviceType, this.accessoryName);
+    this.service.setCharacteristic(this.Characteristic.Name, this.accessoryName);
+    if (this.eventType === BlockedQueryEvent.Button) {
+      // Only single presses are ever sent. Keep the Home app from offering double and long press automations.
+      this.service.getCharacteristic(this.Characteristic.ProgrammableSwitchEvent).setProps({
+        validValues: [this.Characteristic.ProgrammableSwitchEvent.SINGLE_PRESS],
+      });
+    } else {
+      this.service.updateCharacteristic(this.Characteristic.MotionDetected, false);
+    }
+
+    this.update(this.initialStatus);
+
+    this.log.info(`AdGuard Home Blocked Query Sensor ${this.accessoryName} initialized.`);
+  }
+
+  public targetsServer(agh: AGH): boolean {
+    return this.servers.includes(agh);
+  }
+
+  public update(currentStatus: Map<string, AGHStatus>) {
+    let changed = false;
+    const blocked: { agh: AGH; entry: QueryLogEntry }[] = [];
+
+    this.servers.forEach((agh) => {
+      const status = currentStatus.get(agh.name);
+      if (status?.isAvailable !== true) {
+        return;
+      }
+
+      const newest = Math.max(0, ...status.blocked_queries.map((entry) => Date.parse(entry.time)).filter((t) => !isNaN(t)));
+      const lastSeen = this.lastSeen.get(agh.name);
+      if (lastSeen === undefined) {
+        // First time we hear from this server. Whatever is in its log already happened before we were watching.
+        this.log.debug(`Blocked query sensor '${this.accessoryName}' starting on '${agh.name}' at ${new Date(newest).toISOString()}.`);
+      } else {
+        status.blocked_queries
+          .filter((entry) => Date.parse(entry.time) > lastSeen && this.matches(agh, entry))
+          .forEach((entry) => blocked.push({ agh, entry }));
+      }
+
+      if (newest > (lastSeen ?? -1)) {
+        this.lastSeen.set(agh.name, newest);
+        changed = true;
+      }
+    });
+
+    if (changed) {
+      this.writeLastSeen();
+    }
+    if (blocked.length > 0) {
+      blocked.forEach(({ agh, entry }) => this.log.info(`Blocked query sensor '${this.accessoryName}': '${entry.question.name}' `
+        + `was blocked for '${entry.client_info?.name || entry.client}' on '${agh.name}' (${entry.reason}).`));
+      this.fire();
+    }
+  }
+
+  private matches(agh: AGH, entry: QueryLogEntry): boolean {
+    // Each configured list narrows things down. Within a list, any entry will do.
+    if (this.clients.length > 0 && !agh.isFromClient(entry, this.clients)) {
+      return false;
+    }
+
+    if (this.domains.length > 0) {
+      const domain = entry.question.name.toLowerCase().replace(/\.$/, '');
+      if (!this.domains.some((d) => domain === d || domain.endsWith(`.${d}`))) {
+        return false;
+      }
+    }
+
+    if (this.services.length > 0 && !this.services.includes(entry.service_name ?? '')) {
+      return false;
+    }
+
+    return true;
+  }
+
+  private fire() {
+    if (this.eventType === BlockedQueryEvent.Button) {
+      this.service.getCharacteristic(this.Characteristic.ProgrammableSwitchEvent)
+        .sendEventNotification(this.Characteristic.ProgrammableSwitchEvent.SINGLE_PRESS);
+      return;
+    }
+
+    // Every new block keeps the sensor 'in motion' for another 'motionDuration'.
+    this.service.updateCharacteristic(this.Characteristic.MotionDetected, true);
+    if (this.motionTimer) {
+      clearTimeout(this.motionTimer);
+    }
+    this.motionTimer = setTimeout(() => {
+      this.motionTimer = undefined;
+      this.service.updateCharacteristic(this.Characteristic.MotionDetected, false);
+    }, this.motionDuration);
+  }
+
+  private readLastSeen(): Map<string, number> {
+    try {
+      return new Map(Object.entries(JSON.parse(fs_sync.readFileSync(this.lastSeenFile, 'utf8'))));
+    } catch (err) {
+      return new Map<string, number>();  // Never ran before
+    }
+  }
+
+  private writeLastSeen() {
+    fs.writeFile(this.lastSeenFile, JSON.stringify(Object.fromEntries(this.lastSeen)), 'utf8')
+      .catch((err) => {
+        this.log.warn(`Failed to save the last blocked query seen by '${this.accessoryName}':`, err);
+      });
+  }
+}
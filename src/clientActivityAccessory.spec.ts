@@ -0,0 +1,91 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { API, Service } from 'homebridge';
+import AGH, { AdGuardStatus, AuthMode } from './adguardhome';
+import AGHClientActivity from './clientActivityAccessory';
+import MockAdGuardHome from './mocks/mockAdGuardHome';
+import { createAccessory, createMockApi, createMockLogger, createMockPlatform } from './mocks/homebridge';
+
+describe('AdGuardHomeClientActivityAccessory', () => {
+  const mock = new MockAdGuardHome();
+  let storagePath: string;
+  let api: API;
+  let agh: AGH;
+
+  const readStatus = async (available = true) => {
+    const status = new Map<string, AdGuardStatus>();
+    status.set(agh.name, available ? await agh.getCurrentStatus({ recentQueries: true, clients: true }) : new AdGuardStatus());
+    return status;
+  };
+
+  const createSensor = async (config: Record<string, unknown>) =>
+    new AGHClientActivity(createMockPlatform(api), createAccessory(api, { name: 'Presence', ...config }), await readStatus(), [agh]);
+
+  const occupied = (sensor: AGHClientActivity, client: string): boolean =>
+    (sensor['occupancy'].get(client) as Service).getCharacteristic(api.hap.Characteristic.OccupancyDetected).value
+      === api.hap.Characteristic.OccupancyDetected.OCCUPANCY_DETECTED;
+
+  beforeAll(async () => {
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.stop();
+  });
+
+  beforeEach(() => {
+    mock.reset();
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'agh-plus-'));
+    api = createMockApi(storagePath);
+    agh = new AGH('default', '127.0.0.1', `${mock.port}`, false, 'user', 'pass', AuthMode.Basic, 500, 2, 10, createMockLogger());
+    mock.addClient('Xbox', { ids: ['192.168.1.50'] });
+    mock.addClient('Tablet', { ids: ['192.168.1.30'], tags: ['user_child'] });
+  });
+
+  afterEach(() => {
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  it('shows a client as occupied while it has queried within the window', async () => {
+    mock.addQuery('192.168.1.50', 'xboxlive.com', 60);
+    mock.addQuery('192.168.1.30', 'example.com', 10 * 60);
+    const sensor = await createSensor({ clients: 'Xbox, @user_child', activityWindow: 5 });
+
+    expect(occupied(sensor, 'Xbox')).toBe(true);
+    expect(occupied(sensor, '@user_child')).toBe(false);
+  });
+
+  it('remembers activity that dropped out of the query log', async () => {
+    mock.addQuery('192.168.1.50', 'xboxlive.com', 60);
+    const sensor = await createSensor({ clients: 'Xbox' });
+
+    mock.state.query_log = [];
+    sensor.update(await readStatus());
+    expect(occupied(sensor, 'Xbox')).toBe(true);
+  });
+
+  it('goes idle once the window has passed', async () => {
+    mock.addQuery('192.168.1.50', 'xboxlive.com', 60);
+    const sensor = await createSensor({ clients: 'Xbox', activityWindow: 5 });
+
+    const now = new Date().getTime();
+    jest.spyOn(Date.prototype, 'getTime').mockReturnValue(now + 5 * 60 * 1000);
+    sensor.update(await readStatus(false));
+    expect(occupied(sensor, 'Xbox')).toBe(false);
+  });
+
+  it('removes sensors for clients no longer configured', async () => {
+    const accessory = createAccessory(api, { name: 'Presence', clients: 'Xbox,Tablet' });
+    new AGHClientActivity(createMockPlatform(api), accessory, await readStatus(), [agh]);
+
+    accessory.context.config = { name: 'Presence', clients: 'Xbox' };
+    new AGHClientActivity(createMockPlatform(api), accessory, await readStatus(), [agh]);
+
+    expect(accessory.services.filter((s) => s.UUID === api.hap.Service.OccupancySensor.UUID).map((s) => s.subtype)).toEqual(['Xbox']);
+  });
+
+  it('requires at least one client', async () => {
+    await expect(createSensor({})).rejects.toThrow();
+  });
+});
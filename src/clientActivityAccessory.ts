@@ -0,0 +1,108 @@
+import { Service, PlatformAccessory, Characteristic, Logger } from 'homebridge';
+import { AdGuardHomePlus } from './platform';
+import AGH, { AdGuardStatus as AGHStatus, AdGuardStatusQuery } from './adguardhome';
+
+/**
+ * Client Activity Accessory
+ * One Occupancy Sensor per configured client (or '@tag'). It is 'occupied' while the client has made a DNS
+ * query within the last 'activityWindow' minutes, going by AdGuard Home's query log.
+ *
+ * Only the latest queries are read on each poll, so the time a client was last seen is carried over from poll
+ * to poll. Quiet clients on a busy network still count as active until their window runs out.
+ */
+export default class AdGuardHomeClientActivityAccessory {
+  public get name(): string {
+    return this.accessoryName;
+  }
+
+  public readonly statusQuery: AdGuardStatusQuery = { recentQueries: true, clients: true };
+
+  private readonly Characteristic: typeof Characteristic;
+  private readonly accessoryName: string;
+  private readonly clients: string[];
+  private readonly activityWindow: number;  // ms
+  private readonly lastSeen = new Map<string, number>();  // client => time of its latest query, ms since epoch
+  private readonly occupancy = new Map<string, Service>();  // client => sensor
+  private readonly log: Logger;
+
+  constructor(
+    private readonly platform: AdGuardHomePlus,
+    private readonly accessory: PlatformAccessory,
+    private readonly initialStatus: Map<string, AGHStatus>,
+    private readonly servers: AGH[],
+  ) {
+    const config = accessory.context.config;
+    this.Characteristic = this.platform.Characteristic;
+    this.accessoryName = config['name'];
+    this.clients = (config['clients'] === undefined) ? [] : config['clients'].split(',').map((c) => c.trim()).filter((c) => !!c);
+    this.activityWindow = (config['activityWindow'] || 5) * 60 * 1000;  // minutes => ms
+    this.log = platform.log;
+
+    if (this.clients.length === 0) {
+      const msg = `Sensor '${this.accessoryName}' needs at least one client to watch in 'clients'.`;
+      this.log.error(msg);
+      throw new Error(msg);
+    }
+
+    this.log.info(`Initializing AdGuard Home Client Activity ${this.accessoryName} for [${this.clients.join(',')}]...`);
+
+    this.accessory.getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.Characteristic.Manufacturer, config['manufacturer'] || 'AdGuard Home')
+      .setCharacteristic(this.Characteristic.Model, config['model'] || 'AdGuard Home Client Activity')
+      .setCharacteristic(this.Characteristic.SerialNumber, config['serial-number'] || '123-456-789')
+      .setCharacteristic(this.Characteristic.Name, this.accessoryName)
+      .setCharacteristic(this.Characteristic.ConfiguredName, this.accessoryName);
+
+    this.clients.forEach((client) => this.occupancy.set(client, this.createService(client)));
+
+    // Clients dropped from the config leave their sensors behind in cached accessories.
+    this.accessory.services
+      .filter((service) => service.UUID === this.platform.Service.OccupancySensor.UUID && !this.clients.includes(service.subtype ?? ''))
+      .forEach((service) => this.accessory.removeService(service));
+
+    this.update(this.initialStatus);
+
+    this.log.info(`AdGuard Home Client Activity ${this.accessoryName} initialized.`);
+  }
+
+  public targetsServer(agh: AGH): boolean {
+    return this.servers.includes(agh);
+  }
+
+  public update(currentStatus: Map<string, AGHStatus>) {
+    const available = this.servers.filter((agh) => currentStatus.get(agh.name)?.isAvailable === true);
+    available.forEach((agh) => {
+      currentStatus.get(agh.name)!.recent_queries.forEach((entry) => {
+        const time = Date.parse(entry.time);
+        this.clients
+          .filter((client) => time > (this.lastSeen.get(client) ?? 0) && agh.isFromClient(entry, [client]))
+          .forEach((client) => this.lastSeen.set(client, time));
+      });
+    });
+
+    const now = new Date().getTime();
+    this.occupancy.forEach((service, client) => {
+      const lastSeen = this.lastSeen.get(client);
+      const occupied = (lastSeen !== undefined) && (now - lastSeen) < this.activityWindow;
+      const wasOccupied = service.getCharacteristic(this.Characteristic.OccupancyDetected).value
+        === this.Characteristic.OccupancyDetected.OCCUPANCY_DETECTED;
+      if (occupied !== wasOccupied) {
+        this.log.info(`Client activity '${this.accessoryName}': '${client}' is now ${occupied ? 'active' : 'idle'}.`);
+      }
+
+      service.updateCharacteristic(this.Characteristic.OccupancyDetected, occupied
+        ? this.Characteristic.OccupancyDetected.OCCUPANCY_DETECTED : this.Characteristic.OccupancyDetected.OCCUPANCY_NOT_DETECTED);
+      // Without a server to ask, the last known activity is all we have. Say so.
+      service.updateCharacteristic(this.Characteristic.StatusActive, available.length > 0);
+    });
+  }
+
+  private createService(client: string): Service {
+    const displayName = client.startsWith('@') ? client.substring(1) : client;
+    const service = this.accessory.getServiceById(this.platform.Service.OccupancySensor, client) ||
+      this.accessory.addService(this.platform.Service.OccupancySensor, `${this.accessoryName} - ${displayName}`, client);
+    service.setCharacteristic(this.Characteristic.Name, displayName);
+    service.setCharacteristic(this.Characteristic.ConfiguredName, displayName);
+    return service;
+  }
+}
@@ -0,0 +1,93 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import ClientSnapshotStore from './clientSnapshotStore';
+import { AdGuardClientConfig, DEFAULT_SERVER_NAME } from './adguardhome';
+import { createMockLogger, MockLogger } from './mocks/homebridge';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+describe('ClientSnapshotStore', () => {
+  let storagePath: string;
+  let log: MockLogger;
+  let store: ClientSnapshotStore;
+
+  const save = (name: string, daysOld: number) =>
+    store.write(name, { savedAt: new Date().getTime() - daysOld * MS_PER_DAY, client: { name } as AdGuardClientConfig });
+
+  beforeEach(() => {
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'agh-plus-'));
+    log = createMockLogger();
+    store = ClientSnapshotStore.forServer(storagePath, 'Replica 1', log);
+    store.ensureRoot();
+  });
+
+  afterEach(() => {
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  it('keeps the original location for the default server', () => {
+    expect(ClientSnapshotStore.forServer(storagePath, DEFAULT_SERVER_NAME, log).root).toBe(`${storagePath}/agh_plus/clients`);
+    expect(store.root).toBe(`${storagePath}/agh_plus/clients@Replica_1`);
+  });
+
+  it('removes a snapshot once it is read', async () => {
+    await save('Tablet', 0);
+
+    expect((await store.read('Tablet'))?.client.name).toBe('Tablet');
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('logs a snapshot it can not remove, instead of failing', async () => {
+    await save('Tablet', 0);
+    const unlink = jest.spyOn(fs.promises, 'unlink').mockRejectedValueOnce(new Error('EACCES'));
+
+    expect((await store.read('Tablet'))?.client.name).toBe('Tablet');
+    expect(log.warn).toHaveBeenCalledWith(expect.stringContaining('removing saved client'), expect.any(Error));
+    unlink.mockRestore();
+  });
+
+  it('reads snapshots saved by older versions', async () => {
+    fs.writeFileSync(`${store.root}/Tablet`, JSON.stringify({ name: 'Tablet', filtering_enabled: true }));
+
+    const snapshot = await store.read('Tablet', false);
+
+    expect(snapshot?.client).toEqual({ name: 'Tablet', filtering_enabled: true });
+    expect(snapshot?.savedAt).toBeGreaterThan(0);
+  });
+
+  it('reports snapshots of clients that are gone', async () => {
+    await save('Tablet', 1);
+    await save('Old Phone', 3);
+
+    await store.inspect(['Tablet']);
+
+    expect(log.info).toHaveBeenCalledWith(expect.stringContaining('\'Tablet\''));
+    expect(log.warn).toHaveBeenCalledWith(expect.stringContaining('\'Old Phone\''));
+    expect((await store.list()).map((s) => s.name).sort()).toEqual(['Old Phone', 'Tablet']);
+  });
+
+  it('removes snapshots older than the maximum age', async () => {
+    await save('Tablet', 1);
+    await save('Laptop', 40);
+
+    await store.inspect(['Tablet', 'Laptop'], 30);
+
+    expect((await store.list()).map((s) => s.name)).toEqual(['Tablet']);
+  });
+
+  it('takes over the snapshots saved before a servers list was configured', async () => {
+    const legacy = ClientSnapshotStore.forServer(storagePath, DEFAULT_SERVER_NAME, log);
+    legacy.ensureRoot();
+    await save('Phone', 0);
+    await legacy.write('Phone', { savedAt: 1, client: { name: 'Old Phone' } as AdGuardClientConfig });
+    await legacy.write('Tablet', { savedAt: 1, client: { name: 'Tablet' } as AdGuardClientConfig });
+
+    await store.adopt(legacy);
+
+    expect((await store.read('Tablet'))?.client.name).toBe('Tablet');
+    expect((await store.read('Phone'))?.client.name).toBe('Phone');
+    expect((await legacy.list()).map((s) => s.name)).toEqual(['Phone']);
+    expect(log.warn).toHaveBeenCalledWith(expect.stringContaining('\'Phone\''));
+  });
+});
@@ -0,0 +1,152 @@
+import { Logger } from 'homebridge';
+import fs_sync, { promises as fs } from 'fs';
+import { AdGuardClientConfig } from './adguardModels';
+import { DEFAULT_SERVER_NAME } from './adguardhome';
+
+// What a client looked like before a switch turned its blocking off.
+export interface ClientSnapshot {
+  savedAt: number;                 // ms since epoch
+  client: AdGuardClientConfig;     // config before blocking was turned off
+  applied?: AdGuardClientConfig;   // config the plugin wrote in its place. Missing from snapshots saved by older versions.
+}
+
+export interface ClientSnapshotInfo {
+  name: string;
+  savedAt: number;
+  file: string;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Client Snapshot Store
+ * Saved client configs, one file per client, kept until blocking is turned back on for that client.
+ *
+ * Snapshots are per-server, since replicas may not share client names. The default server keeps the
+ * original 'agh_plus/clients' location so snapshots saved before multi-server support can still be restored.
+ */
+export default class ClientSnapshotStore {
+  constructor(
+    public readonly root: string,
+    public readonly server: string,
+    private readonly log: Logger,
+  ) {}
+
+  public static forServer(storagePath: string, server: string, log: Logger): ClientSnapshotStore {
+    const root = `${storagePath}/agh_plus/clients`;
+    return new ClientSnapshotStore((server === DEFAULT_SERVER_NAME) ? root : `${root}@${server.replace(/([^a-zA-Z0-9]+)/g, '_')}`,
+      server, log);
+  }
+
+  public ensureRoot() {
+    fs_sync.mkdirSync(this.root, { recursive: true });
+  }
+
+  public async read(name: string, remove = true): Promise<ClientSnapshot | null> {
+    if (!name) {  // name is null/empty/undefined
+      return null;
+    }
+
+    const file = this.fileFor(name);
+    this.log.debug(`Reading saved client[${this.server}:${name}] state...`);
+    return Promise.all([fs.readFile(file, 'utf8'), fs.stat(file)])
+      .then(([s, stat]) => this.parse(s, stat.mtimeMs))
+      .then(async (snapshot) => {
+        if (remove) {
+          await this.remove(name);  // logs, rather than throws, when the file can't be removed
+        }
+        return snapshot;
+      })
+      .catch((err) => {
+        this.log.warn(`Failed while reading saved client[${this.server}:${name}] state:`, err);
+        return null;
+      });
+  }
+
+  public async write(name: string, snapshot: ClientSnapshot): Promise<void> {
+    this.log.debug(`Saving client[${this.server}:${name}] state...`);
+    return fs.writeFile(this.fileFor(name), JSON.stringify(snapshot), 'utf8')
+      .catch((err) => {
+        this.log.warn(`Failed while writing saved client[${this.server}:${name}] state:`, err);
+      });
+  }
+
+  public async remove(name: string): Promise<void> {
+    return fs.unlink(this.fileFor(name))
+      .catch((err) => {
+        this.log.warn(`Failed while removing saved client[${this.server}:${name}] state:`, err);
+      });
+  }
+
+  /**
+   * Moves the snapshots of another store into this one. Clients this store already has a snapshot of
+   * are left where they are.
+   */
+  public async adopt(other: ClientSnapshotStore): Promise<void> {
+    if (other.root === this.root) {
+      return;
+    }
+
+    const names = await fs.readdir(other.root).catch(() => [] as string[]);
+    if (names.length === 0) {
+      return;
+    }
+
+    this.ensureRoot();
+    const moved: string[] = [];
+    for (const name of names) {
+      if (fs_sync.existsSync(this.fileFor(name))) {
+        this.log.warn(`Not moving saved config for client '${name}' from '${other.root}', '${this.server}' already has one.`);
+        continue;
+      }
+      await fs.rename(other.fileFor(name), this.fileFor(name))
+        .then(() => moved.push(name))
+        .catch((err) => this.log.warn(`Failed while moving saved client[${this.server}:${name}] state:`, err));
+    }
+    if (moved.length > 0) {
+      this.log.info(`Moved saved configs for clients [${moved.join(',')}] from '${other.root}' to server '${this.server}'.`);
+    }
+    await fs.rmdir(other.root).catch(() => undefined);  // still holds the snapshots that were not moved
+  }
+
+  public async list(): Promise<ClientSnapshotInfo[]> {
+    const names = await fs.readdir(this.root).catch(() => [] as string[]);
+    const snapshots = await Promise.all(names.map((name) => this.read(name, false).then((snapshot) =>
+      snapshot ? { name, savedAt: snapshot.savedAt, file: this.fileFor(name) } : undefined)));
+    return snapshots.filter((info): info is ClientSnapshotInfo => !!info);
+  }
+
+  /**
+   * Logs every snapshot that is waiting to be restored, and points out those that likely never will be:
+   * the client is gone from AdGuard Home, or the snapshot is older than 'maxAgeDays'. Old ones are removed
+   * when a maximum age is given.
+   */
+  public async inspect(existingClients: string[], maxAgeDays = 0): Promise<void> {
+    const now = new Date().getTime();
+    for (const info of await this.list()) {
+      const age = Math.floor((now - info.savedAt) / MS_PER_DAY);
+      const orphaned = !existingClients.includes(info.name);
+      const expired = (maxAgeDays > 0) && (age >= maxAgeDays);
+
+      if (expired) {
+        this.log.warn(`Removing saved config for client '${info.name}' on '${this.server}'. It is ${age} days old.`);
+        await this.remove(info.name);
+      } else if (orphaned) {
+        this.log.warn(`Saved config for client '${info.name}' on '${this.server}' (${age} days old) belongs to a client `
+          + `AdGuard Home no longer has. It will not be restored. Delete '${info.file}' if it is no longer needed.`);
+      } else {
+        this.log.info(`Saved config for client '${info.name}' on '${this.server}' is waiting to be restored (${age} days old).`);
+      }
+    }
+  }
+
+  private fileFor(name: string): string {
+    return `${this.root}/${name}`;
+  }
+
+  private parse(contents: string, modified: number): ClientSnapshot {
+    const data = JSON.parse(contents);
+    // Older versions saved the bare client config. Go by the file's age for those.
+    return (data && data['client'] && data['savedAt']) ? data : { savedAt: modified, client: data };
+  }
+}
@@ -0,0 +1,67 @@
+import ConfigUiHelper from './configUiHelper';
+import MockAdGuardHome from './mocks/mockAdGuardHome';
+import { createMockLogger } from './mocks/homebridge';
+
+describe('ConfigUiHelper', () => {
+  const mock = new MockAdGuardHome();
+
+  const createHelper = (server?: string) => ConfigUiHelper.forServer({
+    servers: [
+      { name: 'primary', host: '127.0.0.1', port: mock.port },
+      { name: 'offline', host: '127.0.0.1', port: 1 },
+    ],
+  }, server, createMockLogger());
+
+  beforeAll(async () => {
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.stop();
+  });
+
+  beforeEach(() => {
+    mock.reset();
+    mock.addClient('Tablet', { tags: ['user_child'] });
+    mock.addClient('Kid Laptop', { tags: ['user_child', 'device_laptop'] });
+    mock.addClient('TV');
+  });
+
+  it('tests the connection to the chosen server', async () => {
+    expect(await createHelper().testConnection()).toEqual({ ok: true, message: expect.stringContaining('3 persistent clients') });
+    expect((await createHelper('offline').testConnection()).ok).toBe(false);
+    expect(() => createHelper('nope')).toThrow();
+  });
+
+  it('falls back on the top-level server when the servers list is empty', async () => {
+    const helper = ConfigUiHelper.forServer({ servers: [], host: '127.0.0.1', port: mock.port }, undefined, createMockLogger());
+
+    expect((await helper.testConnection()).ok).toBe(true);
+  });
+
+  it('lists clients, tags and services', async () => {
+    const options = await createHelper().getOptions();
+
+    expect(options.clients).toEqual(['Tablet', 'Kid Laptop', 'TV']);
+    expect(options.tags).toEqual(['device_laptop', 'user_child']);
+    expect(options.services.map((s) => s.id)).toContain('youtube');
+    expect(options.serviceGroups).toEqual(['video', 'social_network']);
+  });
+
+  it('previews what tags and wildcards stand for', async () => {
+    const preview = await createHelper().previewClients(['@user_child', 'Kid*', 'TV', 'Phone']);
+
+    expect(preview).toEqual([
+      { ref: '@user_child', clients: ['Tablet', 'Kid Laptop'] },
+      { ref: 'Kid*', clients: ['Kid Laptop'] },
+      { ref: 'TV', clients: ['TV'] },
+      { ref: 'Phone', clients: [] },
+    ]);
+  });
+
+  it('reports a server it cannot read from', async () => {
+    mock.injectFault({ status: 401 });
+
+    await expect(createHelper().getOptions()).rejects.toThrow('rejected the username/password');
+  });
+});
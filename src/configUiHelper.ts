@@ -0,0 +1,84 @@
+import { Logger } from 'homebridge';
+import AGH, { AuthMode, BlockedServiceInfo, DEFAULT_SERVER_NAME } from './adguardhome';
+
+// The config page is waiting on every request. Give up quickly on a server that isn't there.
+const UI_TIMEOUT = 5000;
+
+export interface UiOptions {
+  clients: string[];  // persistent client names
+  tags: string[];     // tags used by at least one persistent client
+  services: BlockedServiceInfo[];
+  serviceGroups: string[];
+}
+
+export interface UiClientPreview {
+  ref: string;        // as written in 'clients', e.g. '@user_child' or 'Kid*'
+  clients: string[];  // the persistent clients it stands for
+}
+
+/**
+ * Config UI Helper
+ * Backs the custom config UI in 'homebridge-ui/'. It reads from one AdGuard Home server with the same connection
+ * code the platform uses, going by the settings on the config page, which may not have been saved yet.
+ */
+export default class ConfigUiHelper {
+  private readonly agh: AGH;
+
+  constructor(serverConfig: Record<string, unknown>, log: Logger) {
+    const name = (serverConfig['name'] || serverConfig['host'] || 'localhost') as string;
+    this.agh = new AGH(name, (serverConfig['host'] || 'localhost') as string, `${serverConfig['port'] || 80}`,
+      !!serverConfig['https'], serverConfig['username'] as string, serverConfig['password'] as string,
+      (serverConfig['authMode'] || AuthMode.Basic) as string, UI_TIMEOUT, 0, 0, log);
+  }
+
+  // Picks 'serverName' out of the platform config the same way the platform does. The first server if not given.
+  public static forServer(config: Record<string, unknown>, serverName: string | undefined, log: Logger): ConfigUiHelper {
+    const servers = config['servers'] as Record<string, unknown>[] | undefined;
+    const serverConfigs = servers?.length ? servers : [{ ...config, name: DEFAULT_SERVER_NAME }];
+    const serverConfig = serverConfigs.find((s) => !serverName || (s['name'] || s['host'] || 'localhost') === serverName);
+    if (!serverConfig) {
+      throw new Error(`There is no server named '${serverName}'.`);
+    }
+    return new ConfigUiHelper(serverConfig, log);
+  }
+
+  public async testConnection(): Promise<{ ok: boolean; message: string }> {
+    const status = await this.agh.getCurrentStatus({ status: true, clients: true });
+    if (!status.isAvailable) {
+      return { ok: false, message: this.describeFailure(status.isAuthorized, status.error) };
+    }
+    return { ok: true, message: `Connected to '${this.agh.name}'. It has ${status.clients.length} persistent clients.` };
+  }
+
+  public async getOptions(): Promise<UiOptions> {
+    const clients = await this.readClients();
+    // Without the catalog, services can still be typed in by hand.
+    const catalog = await this.agh.getServiceCatalog().catch(() => ({ services: [], groups: [] }));
+    return {
+      clients: clients.map((c) => c.name),
+      tags: [...new Set(clients.flatMap((c) => c.tags ?? []))].sort(),
+      services: catalog.services,
+      serviceGroups: catalog.groups,
+    };
+  }
+
+  public async previewClients(refs: string[]): Promise<UiClientPreview[]> {
+    const names = (await this.readClients()).map((c) => c.name);
+    return refs.map((ref) => ({ ref, clients: this.agh.expandTags([ref]).filter((name) => names.includes(name)) }));
+  }
+
+  private async readClients() {
+    const status = await this.agh.getCurrentStatus({ clients: true });
+    if (!status.isAvailable) {
+      throw new Error(this.describeFailure(status.isAuthorized, status.error));
+    }
+    return status.clients;
+  }
+
+  private describeFailure(isAuthorized: boolean | undefined, error): string {
+    if (isAuthorized === false) {
+      return `'${this.agh.name}' rejected the username/password.`;
+    }
+    return `Unable to reach '${this.agh.name}' at ${this.agh.host}:${this.agh.port}: ${error?.message ?? error}`;
+  }
+}
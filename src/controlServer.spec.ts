@@ -0,0 +1,118 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import got from 'got';
+import { API } from 'homebridge';
+import AGH, { AdGuardStatus, AuthMode } from './adguardhome';
+import AGHGroup, { AdGuardHomeState } from './platformAccessory';
+import ControlServer from './controlServer';
+import Metrics from './metrics';
+import MockAdGuardHome from './mocks/mockAdGuardHome';
+import { createAccessory, createMockApi, createMockLogger, createMockPlatform } from './mocks/homebridge';
+
+describe('ControlServer', () => {
+  const mock = new MockAdGuardHome();
+  const token = 'secret-token';
+  let storagePath: string;
+  let api: API;
+  let agh: AGH;
+  let groups: AGHGroup[];
+  let server: ControlServer;
+
+  const createGroup = async (config: Record<string, unknown>) => {
+    const status = new Map<string, AdGuardStatus>();
+    status.set(agh.name, await agh.getCurrentStatus({ status: true, blockedServices: true }));
+    const group = new AGHGroup(createMockPlatform(api), createAccessory(api, config), status, [agh]);
+    groups.push(group);
+    return group;
+  };
+
+  const request = (method: 'GET' | 'POST', path: string, body?: Record<string, unknown>, auth = `Bearer ${token}`) =>
+    got<unknown>(`http://127.0.0.1:${server.port}${path}`, {
+      method, json: body, headers: { authorization: auth }, throwHttpErrors: false, retry: 0, responseType: 'json',
+    });
+
+  beforeAll(async () => {
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.stop();
+  });
+
+  beforeEach(async () => {
+    mock.reset();
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'agh-plus-'));
+    api = createMockApi(storagePath);
+    agh = new AGH('default', '127.0.0.1', `${mock.port}`, false, 'user', 'pass', AuthMode.Basic, 500, 2, 10, createMockLogger());
+    groups = [];
+    server = new ControlServer({ host: '127.0.0.1', port: 0, token }, () => groups, createMockLogger());
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    groups.forEach((group) => group.stop());
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  it('lists every switch group', async () => {
+    await createGroup({ name: 'Global' });
+    await createGroup({ name: 'Video', services: 'youtube,netflix' });
+
+    const response = await request('GET', '/groups');
+
+    expect(response.statusCode).toBe(200);
+    expect(response.body).toEqual([
+      { name: 'Global', currentState: 'Blocking', targetState: 'Blocking', timerExpiry: null, servers: ['default'] },
+      { name: 'Video', currentState: 'Disabled', targetState: 'Disabled', timerExpiry: null, servers: ['default'] },
+    ]);
+  });
+
+  it('sets a group with a timer, like HomeKit does', async () => {
+    const group = await createGroup({ name: 'Global', autoResetTimes: '5' });
+
+    const response = await request('POST', '/groups/Global', { on: false, timer: 10 });
+
+    expect(response.statusCode).toBe(200);
+    expect(mock.state.protection_enabled).toBe(false);
+    expect(mock.requests.find((r) => r.path === 'protection')?.body).toEqual({ enabled: false, duration: 10 * 60 * 1000 });
+    expect(group.currentState).toBe(AdGuardHomeState.DISABLED);
+    expect((response.body as { timerExpiry: string }).timerExpiry).not.toBeNull();
+  });
+
+  it('refuses to change an inconsistent group', async () => {
+    mock.state.blocked_services = ['youtube'];
+    await createGroup({ name: 'Video', services: 'youtube,netflix' });
+
+    const response = await request('POST', '/groups/Video', { on: true });
+
+    expect(response.statusCode).toBe(409);
+    expect(mock.requests.filter((r) => r.method !== 'GET')).toHaveLength(0);
+  });
+
+  it('rejects bad requests', async () => {
+    await createGroup({ name: 'Global' });
+
+    expect((await request('GET', '/groups', undefined, 'Bearer wrong')).statusCode).toBe(401);
+    expect((await request('GET', '/groups/Nope')).statusCode).toBe(404);
+    expect((await request('POST', '/groups/Global', { on: 'yes' })).statusCode).toBe(400);
+    expect((await request('POST', '/groups/Global', { on: true, timer: -5 })).statusCode).toBe(400);
+    expect((await request('POST', '/groups', { on: true })).statusCode).toBe(405);
+    expect((await request('GET', '/metrics')).statusCode).toBe(404);
+  });
+
+  it('serves metrics when they are turned on', async () => {
+    await createGroup({ name: 'Global' });
+    await server.stop();
+    server = new ControlServer({ host: '127.0.0.1', port: 0, token }, () => groups, createMockLogger(),
+      new Metrics(() => [agh], () => groups));
+    await server.start();
+
+    const response = await got(`http://127.0.0.1:${server.port}/metrics`, { headers: { authorization: `Bearer ${token}` } });
+
+    expect(response.headers['content-type']).toContain('text/plain');
+    expect(response.body).toContain('agh_plus_switch_state{group="Global",state="Blocking"} 1');
+    expect((await request('GET', '/metrics', undefined, 'Bearer wrong')).statusCode).toBe(401);
+  });
+});
@@ -0,0 +1,182 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { timingSafeEqual } from 'crypto';
+import { Logger } from 'homebridge';
+import AGHGroup from './platformAccessory';
+import Metrics from './metrics';
+
+// Requests are tiny. Anything bigger is not meant for us.
+const MAX_BODY_SIZE = 16 * 1024;
+
+export interface ControlServerOptions {
+  host: string;
+  port: number;
+  token: string;
+}
+
+// What the API tells callers about a switch group.
+export interface ControlGroupInfo {
+  name: string;
+  currentState: string;
+  targetState: string;
+  timerExpiry: string | null;  // ISO date, or null when no timer is running
+  servers: string[];
+}
+
+// Thrown while handling a request, to answer with 'status' instead of the usual result.
+class ControlError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Control Server
+ * A small HTTP API for scripts and automations that can't go through HomeKit (Node-RED, cron, ...).
+ *
+ *   GET  /groups        => every switch group
+ *   GET  /groups/<name> => one switch group
+ *   POST /groups/<name> => { "on": true|false, "timer": <minutes> } Sets the group, like tapping its switch.
+ *   GET  /metrics       => Prometheus metrics, when they are turned on
+ *
+ * Every request needs 'Authorization: Bearer <token>'. Groups go by the name of their accessory, so unbridged
+ * switches with several timers are listed once per timer.
+ */
+export default class ControlServer {
+  public get port(): number {
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  private readonly server: http.Server;
+
+  constructor(
+    private readonly options: ControlServerOptions,
+    private readonly groups: () => AGHGroup[],
+    private readonly log: Logger,
+    private readonly metrics?: Metrics,
+  ) {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+  }
+
+  public async start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.options.port, this.options.host, () => {
+        this.server.off('error', reject);
+        this.log.info(`API: Listening on ${this.options.host}:${this.port}.`);
+        resolve();
+      });
+    });
+  }
+
+  public async stop(): Promise<void> {
+    if (!this.server.listening) {
+      return;
+    }
+    this.server.closeAllConnections();
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    try {
+      if (!this.isAuthorized(req)) {
+        throw new ControlError(401, 'Missing or wrong token.');
+      }
+
+      const url = new URL(req.url ?? '', 'http://localhost');
+      if (this.metrics && url.pathname === '/metrics') {
+        if (req.method !== 'GET') {
+          throw new ControlError(405, `Method ${req.method} not allowed.`);
+        }
+        res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+        return res.end(this.metrics.render());
+      }
+
+      const match = url.pathname.match(/^\/groups(?:\/([^/]+))?\/?$/);
+      if (!match) {
+        throw new ControlError(404, `Unknown path '${url.pathname}'.`);
+      }
+
+      const name = (match[1] === undefined) ? undefined : decodeURIComponent(match[1]);
+      if (name === undefined) {
+        if (req.method !== 'GET') {
+          throw new ControlError(405, `Method ${req.method} not allowed.`);
+        }
+        return this.send(res, 200, this.groups().map((group) => this.describe(group)));
+      }
+
+      const group = this.groups().find((g) => g.accessory.displayName === name);
+      if (!group) {
+        throw new ControlError(404, `Unknown switch group '${name}'.`);
+      }
+      switch (req.method) {
+        case 'GET':
+          return this.send(res, 200, this.describe(group));
+        case 'POST':
+          await this.setGroup(group, await this.readBody(req));
+          return this.send(res, 200, this.describe(group));
+        default:
+          throw new ControlError(405, `Method ${req.method} not allowed.`);
+      }
+    } catch (e) {
+      if (e instanceof ControlError) {
+        return this.send(res, e.status, { error: e.message });
+      }
+      this.log.error(`API: ${req.method} ${req.url} failed:`, e);
+      return this.send(res, 500, { error: 'Internal error.' });
+    }
+  }
+
+  private async setGroup(group: AGHGroup, body: unknown) {
+    const request = body as { on?: unknown; timer?: unknown } | null;
+    if (typeof request?.on !== 'boolean') {
+      throw new ControlError(400, 'Expected a body like { "on": true, "timer": 30 }.');
+    }
+    if (request.timer !== undefined && (typeof request.timer !== 'number' || !(request.timer >= 0))) {
+      throw new ControlError(400, 'The timer must be a number of minutes.');
+    }
+    if (!group.acceptsChanges) {
+      throw new ControlError(409, `Switch group '${group.name}' is ${group.currentState}. Set 'forceState' to change it anyway.`);
+    }
+
+    this.log.info(`API: Turning '${group.accessory.displayName}' ${request.on ? 'on' : 'off'}` +
+      `${request.timer ? ` for ${request.timer} minutes` : ''}.`);
+    await group.setState(request.on, request.timer ?? 0);
+  }
+
+  private describe(group: AGHGroup): ControlGroupInfo {
+    return {
+      name: group.accessory.displayName,
+      currentState: group.currentState,
+      targetState: group.targetState,
+      timerExpiry: group.timerExpiry ? new Date(group.timerExpiry).toISOString() : null,
+      servers: group.serverNames,
+    };
+  }
+
+  private isAuthorized(req: IncomingMessage): boolean {
+    const given = Buffer.from(req.headers.authorization ?? '');
+    const expected = Buffer.from(`Bearer ${this.options.token}`);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+
+  private async readBody(req: IncomingMessage): Promise<unknown> {
+    let data = '';
+    for await (const chunk of req) {
+      data += chunk;
+      if (data.length > MAX_BODY_SIZE) {
+        throw new ControlError(413, 'Request body too large.');
+      }
+    }
+    try {
+      return data ? JSON.parse(data) : undefined;
+    } catch (e) {
+      throw new ControlError(400, 'Request body is not valid JSON.');
+    }
+  }
+
+  private send(res: ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
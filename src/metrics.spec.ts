@@ -0,0 +1,84 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { API } from 'homebridge';
+import AGH, { AdGuardStatus, AuthMode } from './adguardhome';
+import AGHGroup from './platformAccessory';
+import Metrics from './metrics';
+import MockAdGuardHome from './mocks/mockAdGuardHome';
+import { createAccessory, createMockApi, createMockLogger, createMockPlatform } from './mocks/homebridge';
+
+describe('Metrics', () => {
+  const mock = new MockAdGuardHome();
+  let storagePath: string;
+  let api: API;
+  let agh: AGH;
+  let groups: AGHGroup[];
+  let metrics: Metrics;
+
+  const createGroup = async (config: Record<string, unknown>) => {
+    const status = new Map<string, AdGuardStatus>();
+    status.set(agh.name, await agh.getCurrentStatus({ status: true, blockedServices: true }));
+    const group = new AGHGroup(createMockPlatform(api), createAccessory(api, config), status, [agh]);
+    groups.push(group);
+    return group;
+  };
+
+  beforeAll(async () => {
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.stop();
+  });
+
+  beforeEach(() => {
+    mock.reset();
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'agh-plus-'));
+    api = createMockApi(storagePath);
+    agh = new AGH('default', '127.0.0.1', `${mock.port}`, false, 'user', 'pass', AuthMode.Basic, 500, 2, 10, createMockLogger());
+    groups = [];
+    metrics = new Metrics(() => [agh], () => groups);
+  });
+
+  afterEach(() => {
+    groups.forEach((group) => group.stop());
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  it('shows the state and timer of each switch group', async () => {
+    const group = await createGroup({ name: 'Kids "TV"' });
+    await group.setState(false, 30);
+
+    const text = metrics.render();
+
+    expect(text).toContain('agh_plus_switch_state{group="Kids \\"TV\\"",state="Disabled"} 1');
+    expect(text).toContain('agh_plus_switch_state{group="Kids \\"TV\\"",state="Blocking"} 0');
+    expect(text).toContain(`agh_plus_switch_timer_expiry_timestamp_seconds{group="Kids \\"TV\\""} ${group.timerExpiry / 1000}`);
+  });
+
+  it('counts requests and errors per endpoint', async () => {
+    await agh.getCurrentStatus({ status: true });
+    mock.injectFault({ path: 'status', status: 500 });
+    await agh.getCurrentStatus({ status: true });
+
+    const text = metrics.render();
+
+    expect(text).toContain('agh_plus_request_duration_seconds_count{server="default",endpoint="status"} 2');
+    expect(text).toMatch(/agh_plus_request_duration_seconds_sum\{server="default",endpoint="status"\} [0-9.e-]+\n/);
+    expect(text).toContain('agh_plus_request_errors_total{server="default",endpoint="status"} 1');
+  });
+
+  it('tracks polls and availability changes', () => {
+    metrics.recordPoll('default', 0.25, true);
+    metrics.recordPoll('default', 0.5, false);
+    metrics.recordPoll('default', 0.25, true);
+
+    const text = metrics.render();
+
+    expect(text).toContain('agh_plus_server_up{server="default"} 1');
+    expect(text).toContain('agh_plus_server_availability_changes_total{server="default"} 2');
+    expect(text).toContain('agh_plus_poll_duration_seconds_sum{server="default"} 1');
+    expect(text).toContain('agh_plus_poll_duration_seconds_count{server="default"} 3');
+  });
+});
@@ -0,0 +1,93 @@
+import AGH from './adguardhome';
+import AGHGroup, { AdGuardHomeState } from './platformAccessory';
+
+// Every state a switch group can be in. Each gets a series of its own, so any of them can be alerted on.
+const STATES = [AdGuardHomeState.BLOCKING, AdGuardHomeState.DISABLED, AdGuardHomeState.INCONSISTENT, AdGuardHomeState.UNAVAILABLE];
+
+// Running totals for the polls of one server.
+class PollStats {
+  public polls = 0;
+  public seconds = 0;
+  public available: boolean | undefined;
+  public transitions = 0;  // times the server went from answering to not answering, or back
+}
+
+interface Sample {
+  suffix?: string;  // '_sum', '_count' for summaries
+  labels: Record<string, string>;
+  value: number;
+}
+
+/**
+ * Metrics
+ * The state of every switch group, and how well the AdGuard Home servers are answering, in the Prometheus text
+ * format. Counters start over when Homebridge restarts, which Prometheus' rate() and increase() take in stride.
+ */
+export default class Metrics {
+  private readonly polls = new Map<string, PollStats>();  // server name => totals
+
+  constructor(
+    private readonly servers: () => AGH[],
+    private readonly groups: () => AGHGroup[],
+  ) {}
+
+  // Called after each poll of a server, with how long it took and whether the server answered.
+  public recordPoll(server: string, seconds: number, available: boolean) {
+    const stats = this.polls.get(server) ?? new PollStats();
+    this.polls.set(server, stats);
+
+    stats.polls++;
+    stats.seconds += seconds;
+    if (stats.available !== undefined && stats.available !== available) {
+      stats.transitions++;
+    }
+    stats.available = available;
+  }
+
+  public render(): string {
+    const groups = this.groups().map((group) => ({ group, labels: { group: group.accessory.displayName } }));
+    const servers = this.servers().map((agh) => ({ labels: { server: agh.name }, polls: this.polls.get(agh.name) ?? new PollStats() }));
+    const requests = this.servers().flatMap((agh) => [...agh.requestStats.entries()]
+      .map(([endpoint, stats]) => ({ stats, labels: { server: agh.name, endpoint } })));
+
+    return [
+      this.family('agh_plus_switch_state', 'gauge', 'Whether a switch group is in the given state (1) or not (0).',
+        groups.flatMap(({ group, labels }) => STATES.map((state) =>
+          ({ labels: { ...labels, state }, value: (group.currentState === state) ? 1 : 0 })))),
+      this.family('agh_plus_switch_timer_expiry_timestamp_seconds', 'gauge',
+        'When the running timer of a switch group ends, in seconds since the epoch. 0 while no timer runs.',
+        groups.map(({ group, labels }) => ({ labels, value: group.timerExpiry / 1000 }))),
+      this.family('agh_plus_server_up', 'gauge', 'Whether the last poll of an AdGuard Home server got an answer.',
+        servers.map(({ labels, polls }) => ({ labels, value: polls.available ? 1 : 0 }))),
+      this.family('agh_plus_server_availability_changes_total', 'counter',
+        'How often an AdGuard Home server stopped or started answering polls.',
+        servers.map(({ labels, polls }) => ({ labels, value: polls.transitions }))),
+      this.family('agh_plus_poll_duration_seconds', 'summary', 'Time taken to poll an AdGuard Home server.',
+        servers.flatMap(({ labels, polls }) => [
+          { suffix: '_sum', labels, value: polls.seconds },
+          { suffix: '_count', labels, value: polls.polls },
+        ])),
+      this.family('agh_plus_request_duration_seconds', 'summary', 'Time taken by requests to an AdGuard Home API endpoint.',
+        requests.flatMap(({ labels, stats }) => [
+          { suffix: '_sum', labels, value: stats.seconds },
+          { suffix: '_count', labels, value: stats.requests },
+        ])),
+      this.family('agh_plus_request_errors_total', 'counter',
+        'Requests to an AdGuard Home API endpoint that failed, timed out or could not connect.',
+        requests.map(({ labels, stats }) => ({ labels, value: stats.errors }))),
+    ].join('');
+  }
+
+  private family(name: string, type: string, help: string, samples: Sample[]): string {
+    const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+    samples.forEach((sample) => {
+      const labels = Object.entries(sample.labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(',');
+      lines.push(`${name}${sample.suffix ?? ''}{${labels}} ${sample.value}`);
+    });
+    return lines.join('\n') + '\n';
+  }
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
@@ -0,0 +1,5 @@
+// Schedules work in local time. Run every test in a zone with daylight saving, so they don't depend on
+// where they run. This has to happen before the test workers start. Changing TZ in a test doesn't reach Node's clock.
+export default function globalSetup() {
+  process.env.TZ = 'Europe/Berlin';
+}
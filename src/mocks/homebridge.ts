@@ -0,0 +1,61 @@
+import { EventEmitter } from 'events';
+import { API, Logger, PlatformAccessory } from 'homebridge';
+import { PlatformAccessory as HomebridgePlatformAccessory } from 'homebridge/lib/platformAccessory';
+import * as hap from 'hap-nodejs';
+import { AdGuardHomePlus } from '../platform';
+
+export type MockLogger = Logger & Record<'info' | 'warn' | 'error' | 'debug' | 'success' | 'log', jest.Mock>;
+
+export function createMockLogger(): MockLogger {
+  const log = jest.fn() as unknown as MockLogger;
+  log.info = jest.fn();
+  log.warn = jest.fn();
+  log.error = jest.fn();
+  log.debug = jest.fn();
+  log.success = jest.fn();
+  log.log = jest.fn();
+  return log;
+}
+
+/**
+ * A stand-in for the API Homebridge hands to plugins. It uses the real HAP services and characteristics,
+ * but registration calls are only recorded, and storage lives wherever the test points it.
+ */
+export function createMockApi(storagePath: string): API {
+  const api = new EventEmitter() as unknown as API;
+  Object.assign(api, {
+    version: 2.7,
+    serverVersion: '1.6.1',
+    hap: hap,
+    platformAccessory: HomebridgePlatformAccessory,
+    user: {
+      storagePath: () => storagePath,
+      configPath: () => `${storagePath}/config.json`,
+      persistPath: () => `${storagePath}/persist`,
+      cachedAccessoryPath: () => `${storagePath}/accessories`,
+    },
+    registerPlatformAccessories: jest.fn(),
+    updatePlatformAccessories: jest.fn(),
+    unregisterPlatformAccessories: jest.fn(),
+    publishExternalAccessories: jest.fn(),
+  });
+  return api;
+}
+
+// Just enough of the platform for accessories to be built on their own, without starting its polling loop.
+export function createMockPlatform(api: API, log: Logger = createMockLogger()): AdGuardHomePlus {
+  return {
+    api,
+    log,
+    Service: api.hap.Service,
+    Characteristic: api.hap.Characteristic,
+    pollFast: jest.fn(),
+    refreshIfIdle: jest.fn(),
+  } as unknown as AdGuardHomePlus;
+}
+
+export function createAccessory(api: API, config: Record<string, unknown>): PlatformAccessory {
+  const accessory = new api.platformAccessory(config['name'] as string, api.hap.uuid.generate(config['name'] as string));
+  accessory.context.config = config;
+  return accessory;
+}
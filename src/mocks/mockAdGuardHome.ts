@@ -0,0 +1,351 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import {
+  AdGuardClientConfig, BlockedServiceInfo, FilterResponse, QueryLogEntry, SafeSearchSettings, StatsResponse,
+} from '../adguardModels';
+import { AdGuardServicesSchedule } from '../schedule';
+
+// Everything the fake server knows about. Tests can read and change it directly.
+export interface MockAdGuardHomeState {
+  version: string;
+  protection_enabled: boolean;
+  protection_disabled_until: number | undefined;  // ms since epoch
+  blocked_services: string[];
+  blocked_services_schedule: AdGuardServicesSchedule;
+  clients: AdGuardClientConfig[];
+  query_log: QueryLogEntry[];  // newest first, like AGH
+  service_catalog: BlockedServiceInfo[];
+  filters: FilterResponse[];
+  whitelist_filters: FilterResponse[];
+  user_rules: string[];
+  parental_enabled: boolean;
+  safebrowsing_enabled: boolean;
+  safe_search: SafeSearchSettings;
+  stats: StatsResponse;
+  login: { name: string; password: string } | undefined;  // When set, requests need a session from '/control/login'.
+}
+
+// A fault applies to every matching request until 'times' runs out. (Forever, if not given.)
+export interface MockFault {
+  path?: string;     // e.g. 'clients/update'. Matches every endpoint if not given.
+  latency?: number;  // ms to wait before answering
+  status?: number;   // answer with this HTTP status instead
+  hang?: boolean;    // never answer. The client is expected to time out.
+  times?: number;
+}
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  body: unknown;
+}
+
+/**
+ * Mock AdGuard Home
+ * An in-process fake of the parts of the AdGuard Home HTTP API the plugin depends on:
+ * '/control/status', 'dns_config', 'protection', 'blocked_services/*', 'clients', 'clients/update', 'querylog',
+ * 'filtering/*', 'parental/*', 'safebrowsing/*', 'safesearch/*', 'stats' and 'login'.
+ *
+ * Requests are recorded in 'requests', and faults (latency, error statuses, hangs) can be injected per endpoint.
+ */
+export default class MockAdGuardHome {
+  public readonly requests: MockRequest[] = [];
+  public state: MockAdGuardHomeState = MockAdGuardHome.defaultState();
+
+  private readonly server: http.Server;
+  private faults: MockFault[] = [];
+  private sessions = new Set<string>();
+
+  constructor() {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+  }
+
+  public static defaultState(): MockAdGuardHomeState {
+    return {
+      version: 'v0.107.43',
+      protection_enabled: true,
+      protection_disabled_until: undefined,
+      blocked_services: [],
+      blocked_services_schedule: { time_zone: 'Local' },
+      clients: [],
+      query_log: [],
+      service_catalog: [
+        { id: 'youtube', name: 'YouTube', group_id: 'video' },
+        { id: 'netflix', name: 'Netflix', group_id: 'video' },
+        { id: 'tiktok', name: 'TikTok', group_id: 'social_network' },
+        { id: 'instagram', name: 'Instagram', group_id: 'social_network' },
+        { id: 'reddit', name: 'Reddit', group_id: 'social_network' },
+      ],
+      filters: [
+        { url: 'https://example.com/ads.txt', name: 'Ads', enabled: true },
+        { url: 'https://example.com/gambling.txt', name: 'Gambling', enabled: false },
+      ],
+      whitelist_filters: [],
+      user_rules: [],
+      parental_enabled: false,
+      safebrowsing_enabled: true,
+      safe_search: { enabled: false, bing: true, google: true, youtube: true },
+      stats: { num_dns_queries: 0, num_blocked_filtering: 0, avg_processing_time: 0 },
+      login: undefined,
+    };
+  }
+
+  public get port(): number {
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  public async start(): Promise<number> {
+    return new Promise((resolve) => this.server.listen(0, '127.0.0.1', () => resolve(this.port)));
+  }
+
+  public async stop(): Promise<void> {
+    // Hanging requests would otherwise keep the server open.
+    this.server.closeAllConnections();
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  public reset() {
+    this.state = MockAdGuardHome.defaultState();
+    this.requests.length = 0;
+    this.faults = [];
+    this.sessions.clear();
+  }
+
+  // Logs out every session, as a restart of AdGuard Home would.
+  public expireSessions() {
+    this.sessions.clear();
+  }
+
+  public injectFault(fault: MockFault) {
+    this.faults.push({ ...fault });
+  }
+
+  public clearFaults() {
+    this.faults = [];
+  }
+
+  public addClient(name: string, config: Partial<AdGuardClientConfig> = {}): AdGuardClientConfig {
+    const client: AdGuardClientConfig = {
+      name,
+      ids: [name.toLowerCase()],
+      tags: [],
+      use_global_settings: true,
+      filtering_enabled: true,
+      parental_enabled: false,
+      safebrowsing_enabled: false,
+      safe_search: { enabled: false },
+      use_global_blocked_services: true,
+      blocked_services: [],
+      ...config,
+    };
+    this.state.clients.push(client);
+    return client;
+  }
+
+  // Logs a query 'secondsAgo' seconds ago.
+  public addQuery(client: string, domain: string, secondsAgo = 0, entry: Partial<QueryLogEntry> = {}): QueryLogEntry {
+    const query: QueryLogEntry = {
+      time: new Date(new Date().getTime() - secondsAgo * 1000).toISOString(),
+      client,
+      question: { name: domain, type: 'A' },
+      reason: 'NotFilteredNotFound',
+      ...entry,
+    };
+    this.state.query_log.unshift(query);
+    this.state.query_log.sort((a, b) => Date.parse(b.time) - Date.parse(a.time));
+    return query;
+  }
+
+  public addBlockedQuery(client: string, domain: string, secondsAgo = 0, entry: Partial<QueryLogEntry> = {}): QueryLogEntry {
+    return this.addQuery(client, domain, secondsAgo, { reason: 'FilteredBlackList', ...entry });
+  }
+
+  public findClient(name: string): AdGuardClientConfig | undefined {
+    return this.state.clients.find((c) => c.name === name);
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url ?? '', 'http://localhost');
+    const path = url.pathname.replace(/^\/control\//, '');
+    const body = await this.readBody(req);
+    this.requests.push({ method: req.method ?? 'GET', path, body });
+
+    const fault = this.takeFault(path);
+    if (fault?.latency) {
+      await new Promise((resolve) => setTimeout(resolve, fault.latency));
+    }
+    if (fault?.hang) {
+      return;
+    }
+    if (fault?.status) {
+      return this.send(res, fault.status, { message: 'injected fault' });
+    }
+
+    const route = `${req.method} ${path}`;
+    if (route === 'POST login') {
+      const request = body as { name: string; password: string };
+      if (!this.state.login || request.name !== this.state.login.name || request.password !== this.state.login.password) {
+        return this.send(res, 403, { message: 'wrong name or password' });
+      }
+      const session = `${this.sessions.size + 1}-${new Date().getTime()}`;
+      this.sessions.add(session);
+      res.setHeader('Set-Cookie', `agh_session=${session}; Path=/; HttpOnly`);
+      return this.send(res, 200);
+    }
+    const session = /agh_session=([^;]+)/.exec(req.headers.cookie ?? '')?.[1];
+    if (this.state.login && !(session && this.sessions.has(session))) {
+      return this.send(res, 401, { message: 'not logged in' });
+    }
+
+    switch (route) {
+      case 'GET status':
+        return this.send(res, 200, {
+          version: this.state.version,
+          running: true,
+          protection_enabled: this.state.protection_enabled && !this.isPaused(),
+          protection_disabled_duration: this.state.protection_disabled_until
+            ? Math.max(0, this.state.protection_disabled_until - new Date().getTime()) : 0,
+        });
+
+      case 'POST dns_config':
+        // Like AGH, this leaves a running pause alone. Only 'protection' ends one early.
+        this.state.protection_enabled = (body as { protection_enabled: boolean }).protection_enabled;
+        return this.send(res, 200);
+
+      case 'POST protection': {
+        const request = body as { enabled: boolean; duration?: number };
+        this.state.protection_enabled = request.enabled;
+        this.state.protection_disabled_until = (!request.enabled && request.duration)
+          ? new Date().getTime() + request.duration : undefined;
+        return this.send(res, 200);
+      }
+
+      case 'GET blocked_services/get':
+        return this.send(res, 200, { ids: this.state.blocked_services, schedule: this.state.blocked_services_schedule });
+
+      case 'PUT blocked_services/update': {
+        const request = body as { ids: string[]; schedule?: AdGuardServicesSchedule };
+        this.state.blocked_services = request.ids ?? [];
+        this.state.blocked_services_schedule = request.schedule ?? this.state.blocked_services_schedule;
+        return this.send(res, 200);
+      }
+
+      case 'GET blocked_services/all': {
+        const groups = [...new Set(this.state.service_catalog.map((service) => service.group_id))].map((id) => ({ id }));
+        return this.send(res, 200, { blocked_services: this.state.service_catalog, groups });
+      }
+
+      case 'GET blocked_services/services':
+        return this.send(res, 200, this.state.service_catalog.map((service) => service.id));
+
+      case 'GET blocked_services/list':
+        return this.send(res, 200, this.state.blocked_services);
+
+      case 'POST blocked_services/set':
+        this.state.blocked_services = body as string[];
+        return this.send(res, 200);
+
+      case 'GET clients':
+        return this.send(res, 200, { clients: this.state.clients, auto_clients: [], supported_tags: [] });
+
+      case 'POST clients/update': {
+        const request = body as { name: string; data: AdGuardClientConfig };
+        const index = this.state.clients.findIndex((c) => c.name === request.name);
+        if (index < 0) {
+          return this.send(res, 400, { message: `client '${request.name}' not found` });
+        }
+        this.state.clients[index] = JSON.parse(JSON.stringify(request.data));
+        return this.send(res, 200);
+      }
+
+      case 'GET filtering/status':
+        return this.send(res, 200, {
+          enabled: true,
+          filters: this.state.filters,
+          whitelist_filters: this.state.whitelist_filters,
+          user_rules: this.state.user_rules,
+        });
+
+      case 'POST filtering/set_url': {
+        const request = body as { url: string; whitelist: boolean; data: FilterResponse };
+        const filter = (request.whitelist ? this.state.whitelist_filters : this.state.filters).find((f) => f.url === request.url);
+        if (!filter) {
+          return this.send(res, 400, { message: `filter '${request.url}' not found` });
+        }
+        Object.assign(filter, request.data);
+        return this.send(res, 200);
+      }
+
+      case 'POST filtering/set_rules':
+        this.state.user_rules = (body as { rules: string[] }).rules;
+        return this.send(res, 200);
+
+      case 'GET parental/status':
+        return this.send(res, 200, { enabled: this.state.parental_enabled });
+
+      case 'POST parental/enable':
+      case 'POST parental/disable':
+        this.state.parental_enabled = !path.endsWith('disable');
+        return this.send(res, 200);
+
+      case 'GET safebrowsing/status':
+        return this.send(res, 200, { enabled: this.state.safebrowsing_enabled });
+
+      case 'POST safebrowsing/enable':
+      case 'POST safebrowsing/disable':
+        this.state.safebrowsing_enabled = !path.endsWith('disable');
+        return this.send(res, 200);
+
+      case 'GET safesearch/status':
+        return this.send(res, 200, this.state.safe_search);
+
+      case 'PUT safesearch/settings':
+        this.state.safe_search = body as SafeSearchSettings;
+        return this.send(res, 200);
+
+      case 'POST safesearch/enable':
+      case 'POST safesearch/disable':
+        this.state.safe_search.enabled = !path.endsWith('disable');
+        return this.send(res, 200);
+
+      case 'GET stats':
+        return this.send(res, 200, this.state.stats);
+
+      case 'GET querylog': {
+        // Only the 'blocked' filter is supported.
+        const blocked = (url.searchParams.get('response_status') === 'blocked');
+        const entries = this.state.query_log.filter((q) => !blocked || q.reason.startsWith('Filtered'));
+        return this.send(res, 200, { data: entries.slice(0, parseInt(url.searchParams.get('limit') ?? '500')) });
+      }
+    }
+
+    return this.send(res, 404, { message: `${route} is not implemented by the mock` });
+  }
+
+  private isPaused(): boolean {
+    return (this.state.protection_disabled_until ?? 0) > new Date().getTime();
+  }
+
+  private takeFault(path: string): MockFault | undefined {
+    const fault = this.faults.find((f) => !f.path || f.path === path);
+    if (fault?.times !== undefined && --fault.times <= 0) {
+      this.faults.splice(this.faults.indexOf(fault), 1);
+    }
+    return fault;
+  }
+
+  private async readBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk);
+    }
+    const text = Buffer.concat(chunks).toString('utf8');
+    return text ? JSON.parse(text) : undefined;
+  }
+
+  private send(res: ServerResponse, status: number, body?: unknown) {
+    // AGH answers mutations with an empty 200, and everything else with JSON.
+    res.writeHead(status, { 'Content-Type': (body === undefined) ? 'text/plain' : 'application/json' });
+    res.end((body === undefined) ? '' : JSON.stringify(body));
+  }
+}
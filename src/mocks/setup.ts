@@ -0,0 +1,9 @@
+// HAP warns on the console about characteristics it doesn't expect on a service, like 'ConfiguredName' on
+// switches. Homebridge shows those in its own log. In tests they only bury the results.
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
@@ -0,0 +1,194 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { API, PlatformConfig } from 'homebridge';
+import { AdGuardStatus } from './adguardhome';
+import { AdGuardHomePlus } from './platform';
+import MockAdGuardHome from './mocks/mockAdGuardHome';
+import { createAccessory, createMockApi, createMockLogger } from './mocks/homebridge';
+
+describe('AdGuardHomePlus', () => {
+  const mock = new MockAdGuardHome();
+  let storagePath: string;
+  let api: API;
+
+  const createPlatform = (config: Record<string, unknown>) => new AdGuardHomePlus(createMockLogger(), {
+    platform: 'AdGuardHomePlus',
+    name: 'AGH',
+    servers: [{ name: 'primary', host: '127.0.0.1', port: mock.port }],
+    ...config,
+  } as PlatformConfig, api);
+
+  const readStatus = async (platform: AdGuardHomePlus) => {
+    const status = new Map<string, AdGuardStatus>();
+    const agh = platform['servers'][0];
+    status.set(agh.name, await agh.getCurrentStatus({ status: true, blockedServices: true, clients: true }));
+    return status;
+  };
+
+  const switchNames = (platform: AdGuardHomePlus): string[] => platform['switchGroups'].map((group) => group.name);
+
+  beforeAll(async () => {
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.stop();
+  });
+
+  beforeEach(() => {
+    mock.reset();
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'agh-plus-'));
+    api = createMockApi(storagePath);
+    mock.addClient('Tablet', { tags: ['user_child'] });
+    mock.addClient('Phone', { tags: ['user_child'] });
+    mock.addClient('Laptop');
+  });
+
+  afterEach(() => {
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  describe('discovery', () => {
+    it('creates a switch for every client from the template', async () => {
+      const platform = createPlatform({
+        switches: [{ name: 'Global' }, { name: 'Block Laptop', clients: 'Laptop' }],
+        discovery: { mode: 'clients', prefix: 'Block ', exclude: 'Phone', template: { homekitType: 'Lock', autoResetTimes: '15' } },
+      });
+
+      platform.discoverDevices(await readStatus(platform));
+
+      expect(switchNames(platform)).toEqual(['Global', 'Block Laptop', 'Block Tablet']);
+      const tablet = platform['switchGroups'][2];
+      expect(tablet.serviceType).toBe('Lock');
+      expect(tablet.accessory.context.config.clients).toBe('Tablet');
+    });
+
+    it('creates a switch for every tag', async () => {
+      const platform = createPlatform({ discovery: { mode: 'tags' } });
+
+      platform.discoverDevices(await readStatus(platform));
+
+      expect(switchNames(platform)).toEqual(['user_child']);
+      expect(platform['switchGroups'][0].accessory.context.config.clients).toBe('@user_child');
+    });
+
+    it('adds and removes switches as clients come and go', async () => {
+      const platform = createPlatform({ discovery: { mode: 'clients' } });
+      platform.discoverDevices(await readStatus(platform));
+      const laptop = platform['switchGroups'].find((group) => group.name === 'Laptop')!.accessory;
+
+      mock.state.clients = mock.state.clients.filter((c) => c.name !== 'Laptop');
+      mock.addClient('Console');
+      platform['syncDiscoveredSwitches'](await readStatus(platform));
+
+      expect(switchNames(platform)).toEqual(['Tablet', 'Phone', 'Console']);
+      expect(api.unregisterPlatformAccessories).toHaveBeenCalledWith(expect.anything(), expect.anything(), [laptop]);
+    });
+
+    it('keeps the accessories of departed clients without clearUnusedCache', async () => {
+      const platform = createPlatform({ discovery: { mode: 'clients' }, clearUnusedCache: false, useCache: true });
+      platform.discoverDevices(await readStatus(platform));
+
+      mock.state.clients = mock.state.clients.filter((c) => c.name !== 'Laptop');
+      platform['syncDiscoveredSwitches'](await readStatus(platform));
+      expect(switchNames(platform)).toEqual(['Tablet', 'Phone']);
+      expect(api.unregisterPlatformAccessories).not.toHaveBeenCalled();
+
+      // Coming back picks up the same accessory.
+      mock.addClient('Laptop');
+      platform['syncDiscoveredSwitches'](await readStatus(platform));
+      expect(switchNames(platform)).toEqual(['Tablet', 'Phone', 'Laptop']);
+      expect(api.registerPlatformAccessories).toHaveBeenCalledTimes(3);
+    });
+
+    it('leaves discovered switches alone while the server is down', async () => {
+      const platform = createPlatform({ discovery: { mode: 'clients' } });
+      platform.discoverDevices(await readStatus(platform));
+
+      platform['syncDiscoveredSwitches'](new Map([['primary', new AdGuardStatus()]]));
+
+      expect(switchNames(platform)).toEqual(['Tablet', 'Phone', 'Laptop']);
+    });
+
+    it('leaves out discovered switches it can not set up, and carries on', async () => {
+      const platform = createPlatform({
+        switches: [{ name: 'Global' }],
+        discovery: { mode: 'clients', template: { homekitType: 'Nope' } },
+      });
+      platform.discoverDevices(await readStatus(platform));
+      expect(switchNames(platform)).toEqual(['Global']);
+
+      mock.addClient('Console');
+      platform['syncDiscoveredSwitches'](await readStatus(platform));
+      expect(switchNames(platform)).toEqual(['Global']);
+      const errors = (platform.log.error as jest.Mock).mock.calls.filter(([msg]) => msg.includes('Unable to add discovered switch'));
+      expect(errors).toHaveLength(4);  // once per client
+    });
+
+    it('rejects unknown modes', () => {
+      expect(() => createPlatform({ discovery: { mode: 'devices' } })).toThrow();
+    });
+  });
+
+  describe('clearUnusedCache', () => {
+    const withCachedAccessory = (config: Record<string, unknown>) => {
+      const platform = createPlatform({ switches: [{ name: 'Global' }], useCache: true, ...config });
+      const stale = createAccessory(api, { name: 'Removed From Config' });
+      platform.configureAccessory(stale);
+      return { platform, stale };
+    };
+
+    it('removes cached accessories that are no longer configured by default', async () => {
+      const { platform, stale } = withCachedAccessory({});
+
+      platform.discoverDevices(await readStatus(platform));
+
+      expect(api.unregisterPlatformAccessories).toHaveBeenCalledWith(expect.anything(), expect.anything(), [stale]);
+    });
+
+    it('keeps them when set to false', async () => {
+      const { platform } = withCachedAccessory({ clearUnusedCache: false });
+
+      platform.discoverDevices(await readStatus(platform));
+
+      expect(api.unregisterPlatformAccessories).not.toHaveBeenCalled();
+    });
+  });
+
+  it('rejects a statistics sensor for more than one server', async () => {
+    const platform = createPlatform({
+      servers: [{ name: 'primary', host: '127.0.0.1', port: mock.port }, { name: 'replica', host: '127.0.0.1', port: mock.port }],
+      sensors: [{ name: 'Stats', sensorType: 'Statistics', server: 'primary,replica' }],
+    });
+
+    const status = await readStatus(platform);
+    expect(() => platform.discoverDevices(status)).toThrow(/Statistics sensor 'Stats' can only read from one server/);
+  });
+
+  it('moves client snapshots saved without a servers list to the first server', async () => {
+    const legacy = path.join(storagePath, 'agh_plus', 'clients');
+    fs.mkdirSync(legacy, { recursive: true });
+    fs.writeFileSync(path.join(legacy, 'Tablet'), JSON.stringify({ name: 'Tablet', filtering_enabled: true }));
+    const platform = createPlatform({});
+
+    await platform['inspectClientSnapshots'](await readStatus(platform));
+
+    expect(fs.existsSync(legacy)).toBe(false);
+    expect(fs.existsSync(path.join(storagePath, 'agh_plus', 'clients@primary', 'Tablet'))).toBe(true);
+  });
+
+  it('uses the top-level connection settings when the servers list is empty', () => {
+    const platform = createPlatform({ servers: [], host: '127.0.0.1', port: mock.port });
+
+    expect(platform['servers'].map((agh) => `${agh.name}@${agh.port}`)).toEqual([`default@${mock.port}`]);
+  });
+
+  it('leaves the control API off without a token', () => {
+    const log = createMockLogger();
+    const platform = new AdGuardHomePlus(log, { platform: 'AdGuardHomePlus', name: 'AGH', controlApi: { metrics: false } }, api);
+
+    expect(platform['controlServer']).toBeUndefined();
+    expect(log.error).toHaveBeenCalledWith(expect.stringContaining('needs a token'));
+  });
+});
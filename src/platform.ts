@@ -2,10 +2,25 @@ import { API, DynamicPlatformPlugin, Logger, PlatformAccessory, PlatformConfig,
 
 import { PLATFORM_NAME, PLUGIN_NAME } from './settings';
 import AGHGroup from './platformAccessory';
-import AGH, { AdGuardStatus as AGHStatus, AdGuardStatus } from './adguardhome';
+import AGHStats, { SensorType } from './statsAccessory';
+import AGHBlockedQueries from './blockedQueryAccessory';
+import AGHClientActivity from './clientActivityAccessory';
+import ClientSnapshotStore from './clientSnapshotStore';
+import ServiceCatalog from './serviceCatalog';
+import ControlServer from './controlServer';
+import Metrics from './metrics';
+import { ServiceType, hasPauseSlider } from './serviceManager';
+import PollScheduler, { DEFAULT_POLL_OPTIONS, PollSchedulerOptions } from './pollScheduler';
+import AGH, { AdGuardStatus as AGHStatus, AdGuardStatus, AdGuardStatusQuery, AuthMode, DEFAULT_SERVER_NAME,
+  GlobalFeature, mergeStatusQueries } from './adguardhome';
+
+// 'const enum' is faster, but requires manual lookups.
+export const enum DiscoveryMode {
+  Clients = 'clients',  // a switch for every persistent client
+  Tags = 'tags',        // a switch for every tag used by a persistent client
+}
 
 // TODO smolloy:
-// locks/races?
 // final logging check
 
 
@@ -20,23 +35,31 @@ export class AdGuardHomePlus implements DynamicPlatformPlugin {
 
   // this is used to track restored cached accessories
   public readonly accessories: PlatformAccessory[] = [];
+  // Services AdGuard Home can block, to check switch configs against. Unset if no server could tell us.
+  public serviceCatalog: ServiceCatalog | undefined;
   private readonly switchGroups: AGHGroup[] = [];
-
-  // AdGuard Home server connection
-  private readonly host: string;
-  private readonly port: string;
-  private readonly https: boolean;
-  private readonly username: string;
-  private readonly password: string;
-  private readonly interval: number;
+  private readonly discoveredGroups = new Map<string, AGHGroup>();  // switch name => group
+  private readonly failedDiscoveries = new Set<string>();  // discovered switch names that could not be added
+  private readonly sensors: (AGHStats | AGHBlockedQueries | AGHClientActivity)[] = [];
+
+  // AdGuard Home server connections
+  private readonly servers: AGH[] = [];
+  private readonly pollers = new Map<string, PollScheduler>();
+  private readonly pollOptions: PollSchedulerOptions;
   private readonly statusTimeout: number;
+  private readonly writeRetries: number;
+  private readonly writeRetryDelay: number;
 
   // Misc
   private readonly name: string;
   private readonly noCache: boolean;
   private readonly clearUnusedCache: boolean;
-  private readonly agh: AGH;
-  private lastStatus: AdGuardStatus = new AdGuardStatus();
+  private readonly clientSnapshotMaxAge: number;
+  private readonly discovery: Record<string, unknown> | undefined;
+  private readonly strictServices: boolean;
+  private readonly controlServer: ControlServer | undefined;
+  private readonly metrics: Metrics | undefined;
+  private lastStatus: Map<string, AdGuardStatus> = new Map<string, AdGuardStatus>();
 
   constructor(
     public readonly log: Logger,
@@ -44,17 +67,51 @@ export class AdGuardHomePlus implements DynamicPlatformPlugin {
     public readonly api: API,
   ) {
     this.name = this.config.name!;
-    this.host = this.config['host'] || 'localhost';
-    this.port = this.config['port'] || 80;
-    this.https = !!this.config['https'];
-    this.username = this.config['username'];
-    this.password = this.config['password'];
     this.statusTimeout = this.config['statusTimeout'] || 7500;
-    this.interval = this.config['interval'] || 10000;
+    this.writeRetries = this.config['writeRetries'] ?? 2;
+    this.writeRetryDelay = this.config['writeRetryDelay'] || 1000;
+    this.pollOptions = {
+      interval: this.config['interval'] || DEFAULT_POLL_OPTIONS.interval,
+      maxInterval: this.config['maxInterval'] || DEFAULT_POLL_OPTIONS.maxInterval,
+      fastInterval: this.config['fastInterval'] || DEFAULT_POLL_OPTIONS.fastInterval,
+      fastDuration: this.config['fastPollDuration'] || DEFAULT_POLL_OPTIONS.fastDuration,
+      idleRefreshAfter: this.config['idleRefreshAfter'] || DEFAULT_POLL_OPTIONS.idleRefreshAfter,
+    };
     this.noCache = !(this.config['useCache'] || false); // !(false, unless explicity set to true)
-    this.clearUnusedCache = (this.config['clearUnusedCache'] === false); // true, unless explicity set to false
+    this.clearUnusedCache = !(this.config['clearUnusedCache'] === false); // true, unless explicity set to false
+    this.clientSnapshotMaxAge = this.config['clientSnapshotMaxAge'] || 0; // days. 0 keeps them until restored.
+    this.strictServices = (this.config['strictServices'] === true);
+    this.discovery = this.config['discovery'];
+    const discoveryMode = this.discovery?.['mode'] || DiscoveryMode.Clients;
+    if (this.discovery && discoveryMode !== DiscoveryMode.Clients && discoveryMode !== DiscoveryMode.Tags) {
+      const msg = `Unknown discovery mode '${discoveryMode}'. Use '${DiscoveryMode.Clients}' or '${DiscoveryMode.Tags}'.`;
+      this.log.error(msg);
+      throw new Error(msg);
+    }
+    const controlApi = this.config['controlApi'];
+    if (controlApi && !controlApi['token']) {
+      // An optional block the UI saved half-filled shouldn't keep the switches from loading.
+      this.log.error('The control API needs a token. Callers send it as \'Authorization: Bearer <token>\'. Leaving it off.');
+    } else if (controlApi) {
+      this.metrics = (controlApi['metrics'] === true) ? new Metrics(() => this.servers, () => this.switchGroups) : undefined;
+      this.controlServer = new ControlServer({ host: controlApi['host'] || '127.0.0.1', port: controlApi['port'] || 8338,
+        token: controlApi['token'] }, () => this.switchGroups, this.log, this.metrics);
+    }
 
-    this.agh = new AGH(this.host, this.port, this.https, this.username, this.password, this.statusTimeout, this.log);
+    // A 'servers' list describes a primary and its replicas. Without one, fall back on the top-level connection settings.
+    // The UI saves an empty list once the servers tab has been opened, so that counts as no list too.
+    const serverConfigs = this.config['servers']?.length ? this.config['servers'] : [{ ...this.config, name: DEFAULT_SERVER_NAME }];
+    for (const serverConfig of serverConfigs) {
+      const serverName: string = serverConfig['name'] || serverConfig['host'] || 'localhost';
+      if (this.servers.find((agh) => agh.name === serverName)) {
+        const msg = `AdGuard Home server name '${serverName}' is used more than once.`;
+        this.log.error(msg);
+        throw new Error(msg);
+      }
+      this.servers.push(new AGH(serverName, serverConfig['host'] || 'localhost', serverConfig['port'] || 80,
+        !!serverConfig['https'], serverConfig['username'], serverConfig['password'], serverConfig['authMode'] || AuthMode.Basic,
+        this.statusTimeout, this.writeRetries, this.writeRetryDelay, this.log));
+    }
 
     this.log.debug('Finished initializing platform:', this.name);
 
@@ -64,17 +121,48 @@ export class AdGuardHomePlus implements DynamicPlatformPlugin {
     // to start discovery of new accessories.
     this.api.on('didFinishLaunching', async () => {
       log.debug('Executing didFinishLaunching callback');
-      // Get initial AGH status
-      const initialStatus: AdGuardStatus = await this.agh.getCurrentStatus(true, true, true);
+      // Get initial AGH status from every server
+      const initialStatus = new Map<string, AdGuardStatus>();
+      await Promise.all(this.servers.map(async (agh) => {
+        initialStatus.set(agh.name, await agh.getCurrentStatus(this.getInitialStatusQuery()));
+      }));
+      initialStatus.forEach((serverStatus) => {
+        if (serverStatus.isAuthorized === false) {
+          this.log.error(serverStatus.error?.message ?? serverStatus.error);
+        }
+      });
+      this.lastStatus = initialStatus;
+      // report saved client configs that are still waiting to be restored, and clear out old ones
+      await this.inspectClientSnapshots(initialStatus);
+      // read the service catalog so switches can check their services
+      await this.loadServiceCatalog(initialStatus);
       // run the method to discover / register your devices as accessories
-      this.discoverDevices(initialStatus!);
+      this.discoverDevices(initialStatus);
       // keep switch state in sync with the current AdGuardHome status
       this.pollAdGuardStatusLoop();
-      // restore/finish any timers that were left unfinished when last shutdown
+      // restore/finish any timers that were left unfinished when last shutdown, then pick up schedules
       this.restoreUnfinishedTimers();
+      this.restoreSchedules();
+      // take requests from automations outside HomeKit, once there are groups to serve
+      this.controlServer?.start().catch((e) => this.log.error('API: Unable to start the control API:', e.message ?? e));
+    });
+
+    this.api.on('shutdown', () => {
+      this.pollers.forEach((poller) => poller.stop());
+      this.controlServer?.stop();
     });
   }
 
+  // Called after a switch writes to its servers, so the result is picked up quickly.
+  public pollFast(servers: AGH[]) {
+    servers.forEach((agh) => this.pollers.get(agh.name)?.pollFast());
+  }
+
+  // Called when HomeKit reads a value. Polls right away if we haven't heard from the servers in a while.
+  public refreshIfIdle(servers: AGH[]) {
+    servers.forEach((agh) => this.pollers.get(agh.name)?.refreshIfIdle());
+  }
+
   /**
    * This function is invoked when homebridge restores cached accessories from disk at startup.
    * It should be used to setup event handlers for characteristics and update respective values.
@@ -90,79 +178,83 @@ export class AdGuardHomePlus implements DynamicPlatformPlugin {
    * Accessories must only be registered once, previously created accessories
    * must not be registered again to prevent "duplicate UUID" errors.
    */
-  discoverDevices(initialStatus: AdGuardStatus) {
+  discoverDevices(initialStatus: Map<string, AdGuardStatus>) {
+    const configuredUUIDs: string[] = [];
 
-    if (!this.config['switches']) {
-      return;
+    // Loop over configured (and discovered) switches and register each one if it has not already been registered
+    const discoveredConfigs = this.getDiscoveredSwitchConfigs(initialStatus);
+    for (const switchConfig of this.config['switches'] || []) {
+      const groups = this.addSwitchGroups(switchConfig, initialStatus);
+      configuredUUIDs.push(...groups.map((group) => group.accessory.UUID));
+    }
+    for (const switchConfig of discoveredConfigs ?? []) {
+      const group = this.addDiscoveredGroup(switchConfig, initialStatus);
+      if (group) {
+        configuredUUIDs.push(group.accessory.UUID);
+      }
     }
 
-    const configuredUUIDs: string[] = [];
+    // Sensors are simpler. There are no timers, so each one is a single accessory.
+    for (const sensorConfig of this.config['sensors'] || []) {
+      const sensorType: string = sensorConfig['sensorType'] || SensorType.Statistics;
+      if (![SensorType.Statistics, SensorType.BlockedQueries, SensorType.ClientActivity].includes(sensorType as SensorType)) {
+        const msg = `Sensor '${sensorConfig.name}' has unknown sensor type '${sensorType}'.`;
+        this.log.error(msg);
+        throw new Error(msg);
+      }
 
-    // Loop over configured switches and register each one if it has not already been registered
-    for (const switchConfig of this.config['switches']) {
-      // If the switch is unbridged, each timer needs it's own accessory
-      const isBridged = !(switchConfig['bridged'] === false);
-      const originalTimeouts: string = switchConfig['autoResetTimes'];
-      let actualTimeouts: string[] = [originalTimeouts];
-      if (!isBridged) {
-        actualTimeouts = (switchConfig['autoResetTimes'] === undefined) ? ['0'] : switchConfig['autoResetTimes'].split(',');
+      // Statistics are per-server. Default to the primary. Query logs are watched on every targeted server.
+      const servers = this.getTargetedServers(sensorConfig);
+      if (sensorType === SensorType.Statistics && sensorConfig['server'] && servers.length > 1) {
+        const msg = `Statistics sensor '${sensorConfig.name}' can only read from one server, but names `
+          + `[${servers.map((agh) => agh.name).join(',')}]. Add a sensor for each server instead.`;
+        this.log.error(msg);
+        throw new Error(msg);
       }
+      const createSensor = (accessory: PlatformAccessory) => {
+        switch (sensorType) {
+          case SensorType.BlockedQueries:
+            return new AGHBlockedQueries(this, accessory, initialStatus, servers);
+          case SensorType.ClientActivity:
+            return new AGHClientActivity(this, accessory, initialStatus, servers);
+          default:
+            return new AGHStats(this, accessory, initialStatus, servers[0]);
+        }
+      };
+      const uuid = this.api.hap.uuid.generate(`sensor:${sensorConfig.name}`);
+      configuredUUIDs.push(uuid);
+
+      let sensor = this.accessories.find(accessory => accessory.UUID === uuid);
+      if (sensor && !this.noCache) {
+        this.log.info('Restoring existing sensor from cache:', sensor.displayName);
+        sensor.context.config = sensorConfig;
+        this.api.updatePlatformAccessories([sensor]);
+        this.sensors.push(createSensor(sensor));
+      } else {
+        if (this.noCache && sensor) {
+          this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [sensor]);
+          this.log.info('Removing existing sensor from cache:', sensor.displayName);
+        }
+
+        this.log.info('Adding new sensor:', sensorConfig.name);
+        sensor = new this.api.platformAccessory(sensorConfig.name, uuid, sensorConfig['category']
+          || ((sensorConfig['eventType'] === 'button') ? Categories.PROGRAMMABLE_SWITCH : Categories.SENSOR));
+        sensor.context.config = sensorConfig;
+        this.sensors.push(createSensor(sensor));
 
-      actualTimeouts.forEach((timeouts) => {
-        // generate a unique id for the accessory
-        const timerVal = parseInt(timeouts);
-        const accessoryName = (isBridged || (!isNaN(timerVal) && timerVal === 0))
-          ? switchConfig.name : `${switchConfig.name}: ${timerVal} minute${timerVal > 1 ? 's' : ''}`;
-        const uuid = this.api.hap.uuid.generate(accessoryName);
-        configuredUUIDs.push(uuid);
-
-        // see if a switch group with the same uuid has already been registered and restored from
-        // the cached devices we stored in the `configureAccessory` method above
-        const existingGroup = this.accessories.find(accessory => accessory.UUID === uuid);
-
-        if (existingGroup && !this.noCache) {
-          // the switch group already exists
-          this.log.info('Restoring existing switch group from cache:', existingGroup.displayName);
-
-          // update the accessory.context and run `api.updatePlatformAccessories`. eg.:
-          existingGroup.context.config = switchConfig;
-          this.api.updatePlatformAccessories([existingGroup]);
-
-          // create the accessory handler for the restored accessory
-          // this is imported from `platformAccessory.ts`
-          this.switchGroups.push(new AGHGroup(this, existingGroup, initialStatus, this.agh));
+        if (sensorConfig['bridged'] === false) {
+          this.api.publishExternalAccessories(PLUGIN_NAME, [sensor]);
         } else {
-          // For debugging: remove the cached switch group and start from scratch
-          // that way there won't be any artifacts attached to the group from previous
-          // debug attempts that found their way into the accessory cache.
-          if (this.noCache && existingGroup) {
-            this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [existingGroup]);
-            this.log.info('Removing existing switch from cache:', existingGroup.displayName);
-          }
-
-          // the switch group does not yet exist, so we need to create it
-          this.log.info('Adding new switch group:', switchConfig.name);
-
-          // create a new platform accessory
-          const newGroup = new this.api.platformAccessory(accessoryName, uuid, switchConfig['category'] || Categories.PROGRAMMABLE_SWITCH);
-          switchConfig['autoResetTimes'] = timeouts;
-          newGroup.context.config = switchConfig;
-          this.switchGroups.push(new AGHGroup(this, newGroup, initialStatus, this.agh));
-
-          // link the accessory to your platform - or not
-          if (isBridged) {
-            this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [newGroup]);
-          } else {
-            this.api.publishExternalAccessories(PLUGIN_NAME, [newGroup]);
-          }
+          this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [sensor]);
         }
-      });
+      }
     }
 
     // All our configured switches are created. Clear out the cache of any we didn't re-hydrate.
     if (this.clearUnusedCache) {
       this.accessories.forEach((accessory) => {
-        if (!configuredUUIDs.find(uuid => uuid === accessory.UUID)) {
+        // Discovered switches stay until their servers can tell us whether the client is still there.
+        if (!configuredUUIDs.find(uuid => uuid === accessory.UUID) && !(accessory.context.config?.['discovered'] && !discoveredConfigs)) {
           this.log.info(`Removing unused accessory '${accessory.displayName}' from cache.`);
           this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
         }
@@ -170,45 +262,292 @@ export class AdGuardHomePlus implements DynamicPlatformPlugin {
     }
   }
 
-  private pollAdGuardStatusLoop() {
-    this.log.info(`Starting AdGuard Home+ monitoring loop with interval ${this.interval}...`);
-
-    setInterval(async () => {
-      let [getStatus, getDefSvcs, getClients]: boolean[] = [false, false, false];
-      this.switchGroups.forEach((ags) => {
-        if (ags.isGlobal) {
-          getStatus ||= !ags.isSelectServices;
-          getDefSvcs ||= ags.isSelectServices;
+  // Creates the switch group(s) for one 'switches' entry. Unbridged switches get one accessory per timer.
+  private addSwitchGroups(switchConfig, initialStatus: Map<string, AdGuardStatus>): AGHGroup[] {
+    const groups: AGHGroup[] = [];
+    const servers = this.getTargetedServers(switchConfig);
+
+    // If the switch is unbridged, each timer needs it's own accessory. (Sliders have no fixed timers.)
+    const isBridged = !(switchConfig['bridged'] === false);
+    const originalTimeouts: string = switchConfig['autoResetTimes'];
+    let actualTimeouts: string[] = [originalTimeouts];
+    if (!isBridged && !hasPauseSlider(switchConfig['homekitType'] || ServiceType.Switch)) {
+      actualTimeouts = (switchConfig['autoResetTimes'] === undefined) ? ['0'] : switchConfig['autoResetTimes'].split(',');
+    }
+
+    actualTimeouts.forEach((timeouts) => {
+      // generate a unique id for the accessory
+      const timerVal = parseInt(timeouts);
+      const accessoryName = (isBridged || (!isNaN(timerVal) && timerVal === 0))
+        ? switchConfig.name : `${switchConfig.name}: ${timerVal} minute${timerVal > 1 ? 's' : ''}`;
+      const uuid = this.api.hap.uuid.generate(accessoryName);
+
+      // see if a switch group with the same uuid has already been registered and restored from
+      // the cached devices we stored in the `configureAccessory` method above
+      const existingGroup = this.accessories.find(accessory => accessory.UUID === uuid);
+
+      if (existingGroup && !this.noCache) {
+        // the switch group already exists
+        this.log.info('Restoring existing switch group from cache:', existingGroup.displayName);
+
+        // update the accessory.context and run `api.updatePlatformAccessories`. eg.:
+        existingGroup.context.config = switchConfig;
+        this.api.updatePlatformAccessories([existingGroup]);
+
+        // create the accessory handler for the restored accessory
+        // this is imported from `platformAccessory.ts`
+        groups.push(new AGHGroup(this, existingGroup, initialStatus, servers));
+      } else {
+        // For debugging: remove the cached switch group and start from scratch
+        // that way there won't be any artifacts attached to the group from previous
+        // debug attempts that found their way into the accessory cache.
+        if (this.noCache && existingGroup) {
+          this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [existingGroup]);
+          this.accessories.splice(this.accessories.indexOf(existingGroup), 1);
+          this.log.info('Removing existing switch from cache:', existingGroup.displayName);
+        }
+
+        // the switch group does not yet exist, so we need to create it
+        this.log.info('Adding new switch group:', switchConfig.name);
+
+        // create a new platform accessory
+        const newGroup = new this.api.platformAccessory(accessoryName, uuid, switchConfig['category'] || Categories.PROGRAMMABLE_SWITCH);
+        switchConfig['autoResetTimes'] = timeouts;
+        newGroup.context.config = switchConfig;
+        groups.push(new AGHGroup(this, newGroup, initialStatus, servers));
+
+        // link the accessory to your platform - or not
+        if (isBridged) {
+          this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [newGroup]);
+          this.accessories.push(newGroup);  // Found in the cache from now on, should discovery add it again.
         } else {
-          getClients = true; // Needed in both client cases for @tag expansion.
+          this.api.publishExternalAccessories(PLUGIN_NAME, [newGroup]);
         }
+      }
+    });
+
+    this.switchGroups.push(...groups);
+    return groups;
+  }
+
+  /**
+   * Switch configs for every persistent client (or tag) the discovery servers know about, built from the
+   * discovery 'template'. Returns undefined while none of those servers respond, since we can't tell then.
+   */
+  private getDiscoveredSwitchConfigs(currentStatus: Map<string, AdGuardStatus>): Record<string, unknown>[] | undefined {
+    if (!this.discovery) {
+      return [];
+    }
+
+    const statuses = this.getTargetedServers({ ...this.discovery, name: 'discovery' })
+      .map((agh) => currentStatus.get(agh.name))
+      .filter((serverStatus): serverStatus is AdGuardStatus => serverStatus?.isAvailable === true);
+    if (statuses.length === 0) {
+      return undefined;
+    }
+
+    const clients = statuses.flatMap((serverStatus) => serverStatus.clients);
+    const refs = (this.discovery['mode'] === DiscoveryMode.Tags)
+      ? clients.flatMap((c) => c.tags ?? []).map((tag) => `@${tag}`)
+      : clients.map((c) => c.name);
+    const exclude = ((this.discovery['exclude'] as string) ?? '').split(',').map((e) => e.trim());
+    const configuredNames = (this.config['switches'] || []).map((switchConfig) => switchConfig.name);
+
+    return [...new Set(refs)]
+      .filter((ref) => !exclude.includes(ref))
+      .map((ref) => ({
+        ...(this.discovery!['template'] as Record<string, unknown> ?? {}),
+        name: `${this.discovery!['prefix'] ?? ''}${ref.replace(/^@/, '')}`,
+        clients: ref,
+        server: this.discovery!['server'],
+        bridged: true,  // Unbridged accessories can't be taken away again while Homebridge runs.
+        discovered: true,
+      }))
+      .filter((switchConfig) => !configuredNames.includes(switchConfig.name));  // Hand-written switches win.
+  }
+
+  private syncDiscoveredSwitches(currentStatus: Map<string, AdGuardStatus>) {
+    const discoveredConfigs = this.getDiscoveredSwitchConfigs(currentStatus);
+    if (!discoveredConfigs) {
+      return;
+    }
+
+    const names = discoveredConfigs.map((switchConfig) => switchConfig.name);
+    this.discoveredGroups.forEach((group, name) => {
+      if (!names.includes(name)) {
+        this.removeDiscoveredGroup(name, group);
+      }
+    });
+
+    this.failedDiscoveries.forEach((name) => {
+      if (!names.includes(name)) {
+        this.failedDiscoveries.delete(name);
+      }
+    });
+
+    discoveredConfigs
+      .filter((switchConfig) => !this.discoveredGroups.has(switchConfig.name as string))
+      .filter((switchConfig) => !this.failedDiscoveries.has(switchConfig.name as string))
+      .forEach((switchConfig) => {
+        this.log.info(`Found '${switchConfig.clients}' in AdGuard Home. Adding switch '${switchConfig.name}'.`);
+        const group = this.addDiscoveredGroup(switchConfig, currentStatus);
+        group?.restoreUnfinishedTimers();
+        group?.restoreSchedule();
       });
+  }
+
+  // A discovered switch that can't be set up is left out, rather than taking the configured switches (or polling) with it.
+  private addDiscoveredGroup(switchConfig, currentStatus: Map<string, AdGuardStatus>): AGHGroup | undefined {
+    try {
+      const group = this.addSwitchGroups(switchConfig, currentStatus)[0];
+      this.discoveredGroups.set(group.name, group);
+      return group;
+    } catch (e) {
+      // Tried again once the client (or tag) has gone away and come back, or after a restart.
+      this.log.error(`Unable to add discovered switch '${switchConfig.name}'. Leaving it out:`, (e as Error).message ?? e);
+      this.failedDiscoveries.add(switchConfig.name);
+      return undefined;
+    }
+  }
 
-      this.log.debug(`Checking AGH status [${getStatus}, ${getDefSvcs}, ${getClients}]...`);
-      const currentStatus: AdGuardStatus = await this.agh.getCurrentStatus(getStatus, getDefSvcs, getClients);
+  private removeDiscoveredGroup(name: string, group: AGHGroup) {
+    this.log.info(`'${name}' no longer matches anything in AdGuard Home. Removing its switch.`);
+    group.stop();
+    this.switchGroups.splice(this.switchGroups.indexOf(group), 1);
+    this.discoveredGroups.delete(name);
 
-      if (currentStatus.isAvailable === true && this.lastStatus.isAvailable !== true) {
-        this.log.info('AdGuardHome Server is now responsive.');
-      } else if (currentStatus.isAvailable !== true && this.lastStatus.isAvailable === true) {
-        this.log.info('AdGuardHome Server is not responding:');
-        if (currentStatus.error) {
-          this.log.error(currentStatus.error);
-        }
+    // Without 'clearUnusedCache', the accessory stays in HomeKit (and keeps its automations) in case the client comes back.
+    if (this.clearUnusedCache) {
+      this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [group.accessory]);
+      this.accessories.splice(this.accessories.indexOf(group.accessory), 1);
+    }
+  }
+
+  private getInitialStatusQuery(): AdGuardStatusQuery {
+    // Switch groups don't exist yet, so go by what has been configured.
+    const switches = this.config['switches'] || [];
+    const sensors = this.config['sensors'] || [];
+    const features: string[] = switches.map((switchConfig) => switchConfig['feature']?.trim().toLowerCase());
+    return {
+      status: true,
+      blockedServices: true,
+      clients: true,
+      filtering: switches.some((switchConfig) => !!switchConfig['filters'] || !!switchConfig['rules']),
+      parental: features.includes(GlobalFeature.Parental),
+      safeBrowsing: features.includes(GlobalFeature.SafeBrowsing),
+      safeSearch: features.includes(GlobalFeature.SafeSearch),
+      stats: sensors.some((sensorConfig) => (sensorConfig['sensorType'] || SensorType.Statistics) === SensorType.Statistics),
+      blockedQueries: sensors.some((sensorConfig) => sensorConfig['sensorType'] === SensorType.BlockedQueries),
+      recentQueries: sensors.some((sensorConfig) => sensorConfig['sensorType'] === SensorType.ClientActivity),
+    };
+  }
+
+  private getTargetedServers(switchConfig): AGH[] {
+    // A switch controls every server unless it names specific ones.
+    const serverRef: string = switchConfig['server'] || 'all';
+    if (serverRef.trim().toLowerCase() === 'all') {
+      return this.servers;
+    }
+
+    return serverRef.split(',').map((s) => s.trim()).map((serverName) => {
+      const agh = this.servers.find((server) => server.name === serverName);
+      if (!agh) {
+        const msg = `Switch '${switchConfig.name}' refers to unknown AdGuard Home server '${serverName}'.`;
+        this.log.error(msg);
+        throw new Error(msg);
+      }
+      return agh;
+    });
+  }
+
+  private pollAdGuardStatusLoop() {
+    this.log.info(`Starting AdGuard Home+ monitoring loop with interval ${this.pollOptions.interval}...`);
+
+    // Each server is polled on its own, so one that is down and backing off doesn't hold up the others.
+    this.servers.forEach((agh) => {
+      const poller = new PollScheduler(agh.name, () => this.pollServer(agh), this.pollOptions, this.log);
+      this.pollers.set(agh.name, poller);
+      poller.start();
+    });
+  }
+
+  private async pollServer(agh: AGH): Promise<boolean> {
+    const query: AdGuardStatusQuery = mergeStatusQueries(
+      { clients: !!this.discovery },
+      ...this.sensors.filter((sensor) => sensor.targetsServer(agh)).map((sensor) => sensor.statusQuery),
+      ...this.switchGroups.filter((ags) => ags.targetsServer(agh)).map((ags) => ags.statusQuery),
+    );
+
+    this.log.debug(`Checking AGH[${agh.name}] status ${JSON.stringify(query)}...`);
+    const startedAt = new Date().getTime();
+    const serverStatus: AdGuardStatus = await agh.getCurrentStatus(query);
+    const lastServerStatus = this.lastStatus.get(agh.name);
+    this.metrics?.recordPoll(agh.name, (new Date().getTime() - startedAt) / 1000, serverStatus.isAvailable === true);  // ms => s
+
+    if (serverStatus.isAuthorized === false) {
+      if (lastServerStatus?.isAuthorized !== false) {
+        this.log.error(`AdGuardHome Server '${agh.name}' is responding, but rejected the configured username/password.`);
+        this.log.error(serverStatus.error?.message ?? serverStatus.error);
+      }
+    } else if (serverStatus.isAvailable === true && lastServerStatus?.isAvailable !== true) {
+      this.log.info(`AdGuardHome Server '${agh.name}' is now responsive.`);
+    } else if (serverStatus.isAvailable !== true && lastServerStatus?.isAvailable === true) {
+      this.log.info(`AdGuardHome Server '${agh.name}' is not responding:`);
+      if (serverStatus.error) {
+        this.log.error(serverStatus.error);
+      }
+    }
+
+    const currentStatus = new Map<string, AdGuardStatus>(this.lastStatus).set(agh.name, serverStatus);
+    this.lastStatus = currentStatus;
+
+    this.updateSensors(currentStatus);
+    this.syncDiscoveredSwitches(currentStatus);
+    this.updateSwitchGroups(currentStatus)
+      .catch((error) => {
+        this.log.error('Failed to update switch states!');
+        this.log.error(error.response ? error.response.body : error);
+        currentStatus.forEach((status) => status.isAvailable = false);
+        this.updateSwitchGroups(currentStatus)
+          .catch((e2) => {
+            this.log.error('DOUBLE FAIL!! Switches still not updated! ');
+            this.log.error(e2.response ? e2.response.body : e2);
+          });
+      });
+
+    return serverStatus.isAvailable === true;
+  }
+
+  private async inspectClientSnapshots(initialStatus: Map<string, AGHStatus>) {
+    // A single-server setup becomes the first entry once a 'servers' list is added. Bring its snapshots along.
+    const storagePath = this.api.user.storagePath();
+    await ClientSnapshotStore.forServer(storagePath, this.servers[0].name, this.log)
+      .adopt(ClientSnapshotStore.forServer(storagePath, DEFAULT_SERVER_NAME, this.log));
+
+    // Only servers we could read the client list from can tell which snapshots belong to clients that are gone.
+    for (const agh of this.servers) {
+      const serverStatus = initialStatus.get(agh.name);
+      if (serverStatus?.isAvailable === true) {
+        await ClientSnapshotStore.forServer(this.api.user.storagePath(), agh.name, this.log)
+          .inspect(serverStatus.clients.map((c) => c.name), this.clientSnapshotMaxAge);
       }
+    }
+  }
 
-      this.updateSwitchGroups(currentStatus)
-        .catch((error) => {
-          this.log.error('Failed to update switch states!');
-          this.log.error(error.response ? error.response.body : error);
-          currentStatus.isAvailable = false;
-          this.updateSwitchGroups(currentStatus)
-            .catch((e2) => {
-              this.log.error('DOUBLE FAIL!! Switches still not updated! ');
-              this.log.error(e2.response ? e2.response.body : e2);
-            });
-        });
-      this.lastStatus = currentStatus;
-    }, this.interval);
+  private async loadServiceCatalog(initialStatus: Map<string, AGHStatus>) {
+    // Replicas run the same version as their primary, as a rule. The first one that answers will do.
+    for (const agh of this.servers.filter((server) => initialStatus.get(server.name)?.isAvailable === true)) {
+      try {
+        const { services, groups } = await agh.getServiceCatalog();
+        this.log.debug(`Read ${services.length} services in ${groups.length} groups from AdGuard Home '${agh.name}'.`);
+        this.serviceCatalog = new ServiceCatalog(services, groups, this.strictServices, this.log);
+        return;
+      } catch (error) {
+        this.log.warn(`Failed to read the services AdGuard Home '${agh.name}' can block:`, error);
+      }
+    }
+    this.log.warn('Could not read the services AdGuard Home can block. Service names are not checked, '
+      + 'and \'group:\' entries are not expanded.');
   }
 
   private async restoreUnfinishedTimers() {
@@ -219,11 +558,29 @@ export class AdGuardHomePlus implements DynamicPlatformPlugin {
     });
   }
 
-  private async updateSwitchGroups(currentStatus: AGHStatus) {
+  private updateSensors(currentStatus: Map<string, AGHStatus>) {
+    this.sensors.forEach((sensor) => {
+      try {
+        sensor.update(currentStatus);
+      } catch (error) {
+        this.log.error(`Failed to update sensor '${sensor.name}'!`, error);
+      }
+    });
+  }
+
+  private async restoreSchedules() {
+    this.switchGroups.forEach(async (group) => {
+      this.log.debug(`Restoring schedule for '${group.name}'...`);
+      await group.restoreSchedule();
+      this.log.debug(`  Done restoring schedule for '${group.name}'`);
+    });
+  }
+
+  private async updateSwitchGroups(currentStatus: Map<string, AGHStatus>) {
     this.switchGroups.forEach((group) => {
-      this.log.debug(`Updating platform status for '${group.name}' (IsAvailable: ${currentStatus.isAvailable})...`);
+      this.log.debug(`Updating platform status for '${group.name}'...`);
       group.update(currentStatus);
-      this.log.debug(`  Done updating platform status for '${group.name}' (IsAvailable: ${currentStatus.isAvailable}).`);
+      this.log.debug(`  Done updating platform status for '${group.name}'.`);
     });
   }
 }
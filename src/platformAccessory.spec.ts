@@ -0,0 +1,421 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { API } from 'homebridge';
+import AGH, { AdGuardStatus, AuthMode } from './adguardhome';
+import AGHGroup, { AdGuardHomeState } from './platformAccessory';
+import ServiceCatalog from './serviceCatalog';
+import MockAdGuardHome from './mocks/mockAdGuardHome';
+import { MockLogger, createAccessory, createMockApi, createMockLogger, createMockPlatform } from './mocks/homebridge';
+
+// Lets HTTP and file I/O finish while timers are faked.
+const realSetTimeout = setTimeout;
+async function waitFor(condition: () => boolean, timeout = 2000) {
+  for (let waited = 0; waited < timeout && !condition(); waited += 10) {
+    await new Promise((resolve) => realSetTimeout(resolve, 10));
+  }
+  expect(condition()).toBe(true);
+}
+
+describe('AdGuardHomeServiceGroup', () => {
+  const primary = new MockAdGuardHome();
+  const replica = new MockAdGuardHome();
+  let storagePath: string;
+  let api: API;
+  let servers: AGH[];
+
+  const createGroup = async (config: Record<string, unknown>, groupServers: AGH[] = servers.slice(0, 1)) => {
+    const platform = createMockPlatform(api);
+    const status = new Map<string, AdGuardStatus>();
+    for (const agh of groupServers) {
+      status.set(agh.name, await agh.getCurrentStatus({ status: true, blockedServices: true, clients: true }));
+    }
+    return new AGHGroup(platform, createAccessory(api, config), status, groupServers);
+  };
+
+  const pollStatus = async (group: AGHGroup) => {
+    const status = new Map<string, AdGuardStatus>();
+    for (const agh of servers) {
+      status.set(agh.name, await agh.getCurrentStatus(group.statusQuery));
+    }
+    group.update(status);
+  };
+
+  beforeAll(async () => {
+    await primary.start();
+    await replica.start();
+  });
+
+  afterAll(async () => {
+    await primary.stop();
+    await replica.stop();
+  });
+
+  beforeEach(() => {
+    primary.reset();
+    replica.reset();
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'agh-plus-'));
+    api = createMockApi(storagePath);
+    servers = [primary, replica].map((mock, i) =>
+      new AGH(`server${i}`, '127.0.0.1', `${mock.port}`, false, 'user', 'pass', AuthMode.Basic, 500, 2, 10, createMockLogger()));
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  describe('state', () => {
+    it('follows global protection', async () => {
+      const group = await createGroup({ name: 'Global' });
+      expect(group.currentState).toBe(AdGuardHomeState.BLOCKING);
+
+      primary.state.protection_enabled = false;
+      await pollStatus(group);
+      expect(group.currentState).toBe(AdGuardHomeState.DISABLED);
+    });
+
+    it('is unavailable when the server is down, and recovers', async () => {
+      const group = await createGroup({ name: 'Global' });
+
+      primary.injectFault({ status: 500 });
+      await pollStatus(group);
+      expect(group.currentState).toBe(AdGuardHomeState.UNAVAILABLE);
+
+      primary.clearFaults();
+      await pollStatus(group);
+      expect(group.currentState).toBe(AdGuardHomeState.BLOCKING);
+    });
+
+    it('keeps its last state while the server rejects the credentials', async () => {
+      primary.state.login = { name: 'user', password: 'pass' };
+      primary.state.protection_enabled = false;
+      servers[0] = new AGH('server0', '127.0.0.1', `${primary.port}`, false, 'user', 'pass', AuthMode.Login, 500, 2, 10,
+        createMockLogger());
+      const group = await createGroup({ name: 'Global' });
+      expect(group.currentState).toBe(AdGuardHomeState.DISABLED);
+
+      primary.expireSessions();
+      primary.state.login.password = 'changed';
+      await pollStatus(group);
+      expect(group.currentState).toBe(AdGuardHomeState.DISABLED);
+      expect((group['log'] as MockLogger).error)
+        .toHaveBeenCalledWith(expect.stringContaining('rejected the configured username/password'));
+
+      primary.state.login.password = 'pass';
+      primary.state.protection_enabled = true;
+      await pollStatus(group);
+      expect(group.currentState).toBe(AdGuardHomeState.BLOCKING);
+    });
+
+    it('is inconsistent when only some services are blocked', async () => {
+      primary.state.blocked_services = ['youtube'];
+      const group = await createGroup({ name: 'Video', services: 'youtube,netflix' });
+
+      expect(group.currentState).toBe(AdGuardHomeState.INCONSISTENT);
+    });
+
+    it('is inconsistent when replicas disagree, but ignores replicas that are down', async () => {
+      replica.state.protection_enabled = false;
+      const group = await createGroup({ name: 'Global' }, servers);
+      expect(group.currentState).toBe(AdGuardHomeState.INCONSISTENT);
+
+      replica.injectFault({ hang: true });
+      await pollStatus(group);
+      expect(group.currentState).toBe(AdGuardHomeState.BLOCKING);
+    });
+
+    it('writes to every targeted server', async () => {
+      const group = await createGroup({ name: 'Global' }, servers);
+
+      await group.handleHomeKitSetEvent(group['switches'][0], false, 0);
+
+      expect(primary.state.protection_enabled).toBe(false);
+      expect(replica.state.protection_enabled).toBe(false);
+      expect(group.currentState).toBe(AdGuardHomeState.DISABLED);
+    });
+
+    it('answers HomeKit after the first try, and retries after that', async () => {
+      const group = await createGroup({ name: 'Global' });
+
+      primary.injectFault({ path: 'dns_config', status: 500, times: 1 });
+      await group.handleHomeKitSetEvent(group['switches'][0], false, 0);
+      expect(group['_writing']).toBe(1);
+
+      await waitFor(() => !primary.state.protection_enabled);
+      await waitFor(() => group.currentState === AdGuardHomeState.DISABLED);
+    });
+
+    it('writes a missed change again once the server is back', async () => {
+      const group = await createGroup({ name: 'Global' }, servers);
+
+      replica.injectFault({ path: 'dns_config', status: 500 });
+      await group.handleHomeKitSetEvent(group['switches'][0], false, 0);
+      await waitFor(() => group.currentState === AdGuardHomeState.UNAVAILABLE);
+      await waitFor(() => fs.existsSync(`${storagePath}/agh_plus/Global/desired`));
+      expect(JSON.parse(fs.readFileSync(`${storagePath}/agh_plus/Global/desired`, 'utf8')).servers).toEqual(['server1']);
+
+      replica.clearFaults();
+      await pollStatus(group);
+      await waitFor(() => !replica.state.protection_enabled);
+      await waitFor(() => !fs.existsSync(`${storagePath}/agh_plus/Global/desired`));
+      expect(primary.requests.filter((r) => r.path === 'dns_config')).toHaveLength(1);
+    });
+
+    it('picks up a missed change saved before a restart', async () => {
+      fs.mkdirSync(`${storagePath}/agh_plus/Global`, { recursive: true });
+      fs.writeFileSync(`${storagePath}/agh_plus/Global/desired`,
+        JSON.stringify({ state: false, pauseUntil: 0, servers: ['server1'], attempts: 0 }));
+      const group = await createGroup({ name: 'Global' }, servers);
+
+      await pollStatus(group);
+      await waitFor(() => !replica.state.protection_enabled);
+      expect(primary.state.protection_enabled).toBe(true);
+    });
+
+    it('checks its services against the service catalog', async () => {
+      const { services, groups } = await servers[0].getServiceCatalog();
+      const platform = createMockPlatform(api);
+      platform.serviceCatalog = new ServiceCatalog(services, groups, false, platform.log);
+      const status = new Map([[servers[0].name, await servers[0].getCurrentStatus({ status: true, blockedServices: true })]]);
+
+      const group = new AGHGroup(platform, createAccessory(api, { name: 'Video', services: 'group:video,youtub' }), status, [servers[0]]);
+      expect(group['services']).toEqual(['youtube', 'netflix']);
+
+      // Blocking everything instead would be a nasty surprise.
+      expect(() => new AGHGroup(platform, createAccessory(api, { name: 'Typo', services: 'youtub' }), status, [servers[0]])).toThrow();
+    });
+
+    it('ignores a services schedule without times', async () => {
+      const group = await createGroup({ name: 'Global', servicesSchedule: { timeZone: 'Local' } });
+
+      expect(group['servicesSchedule']).toBeUndefined();
+    });
+
+    it('ignores HomeKit while inconsistent, unless forced', async () => {
+      primary.state.blocked_services = ['youtube'];
+      const group = await createGroup({ name: 'Video', services: 'youtube,netflix' });
+
+      await group.handleHomeKitSetEvent(group['switches'][0], true, 0);
+      expect(primary.requests.filter((r) => r.method !== 'GET')).toHaveLength(0);
+
+      const forced = await createGroup({ name: 'Forced', services: 'youtube,netflix', forceState: true });
+      await forced.handleHomeKitSetEvent(forced['switches'][0], true, 0);
+      expect(primary.state.blocked_services.sort()).toEqual(['netflix', 'youtube']);
+    });
+  });
+
+  describe('timers', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    });
+
+    it('restores the default state when the timer runs out', async () => {
+      const group = await createGroup({ name: 'Global', autoResetTimes: '5', nativePause: false });
+
+      await group.handleHomeKitSetEvent(group['switches'][0], false, 5);
+      expect(primary.state.protection_enabled).toBe(false);
+      expect(fs.readFileSync(`${storagePath}/agh_plus/Global/timer`, 'utf8')).not.toBe('0');
+
+      jest.advanceTimersByTime(5 * 60 * 1000);
+      await waitFor(() => primary.state.protection_enabled);
+      await waitFor(() => group.currentState === AdGuardHomeState.BLOCKING);
+      expect(fs.readFileSync(`${storagePath}/agh_plus/Global/timer`, 'utf8')).toBe('0');
+    });
+
+    it('hands pauses over to AdGuard Home', async () => {
+      const group = await createGroup({ name: 'Global', autoResetTimes: '5' });
+
+      await group.handleHomeKitSetEvent(group['switches'][0], false, 5);
+
+      const pause = primary.requests.find((r) => r.path === 'protection');
+      expect(pause?.body).toEqual({ enabled: false, duration: 5 * 60 * 1000 });
+    });
+
+    it('ends a pause in AdGuard Home when switched back early', async () => {
+      const group = await createGroup({ name: 'Global', autoResetTimes: '5' });
+
+      await group.handleHomeKitSetEvent(group['switches'][0], false, 5);
+      await group.handleHomeKitSetEvent(group['switches'][0], true, 5);
+
+      expect(primary.requests.filter((r) => r.path === 'protection').map((r) => r.body))
+        .toEqual([{ enabled: false, duration: 5 * 60 * 1000 }, { enabled: true, duration: 0 }]);
+      expect(primary.state.protection_disabled_until).toBeUndefined();
+      await pollStatus(group);
+      expect(group.currentState).toBe(AdGuardHomeState.BLOCKING);
+    });
+
+    it('cancels the timer when switched back by hand', async () => {
+      const group = await createGroup({ name: 'Global', autoResetTimes: '5', nativePause: false });
+
+      await group.handleHomeKitSetEvent(group['switches'][0], false, 5);
+      await group.handleHomeKitSetEvent(group['switches'][0], true, 5);
+      primary.state.protection_enabled = false;  // Changed elsewhere. The old timer must not undo it.
+
+      jest.advanceTimersByTime(10 * 60 * 1000);
+      await new Promise((resolve) => realSetTimeout(resolve, 100));
+      expect(primary.state.protection_enabled).toBe(false);
+    });
+
+    it('cleans up a timer that expired while not running', async () => {
+      primary.state.protection_enabled = false;
+      fs.mkdirSync(`${storagePath}/agh_plus/Global`, { recursive: true });
+      fs.writeFileSync(`${storagePath}/agh_plus/Global/timer`, `${new Date().getTime() - 1000}`);
+      const group = await createGroup({ name: 'Global', autoResetTimes: '5', nativePause: false });
+
+      await group.restoreUnfinishedTimers();
+
+      await waitFor(() => primary.state.protection_enabled);
+      expect(fs.readFileSync(`${storagePath}/agh_plus/Global/timer`, 'utf8')).toBe('0');
+    });
+  });
+
+  describe('schedules', () => {
+    // A blocking-off window from two hours ago to two hours from now, whatever time the tests run at.
+    const hhmm = (offset: number) => {
+      const date = new Date(new Date().getTime() + offset);
+      return `${date.getHours()}:${date.getMinutes().toString().padStart(2, '0')}`;
+    };
+    const window = () => ({ start: hhmm(-2 * 60 * 60 * 1000), end: hhmm(2 * 60 * 60 * 1000), state: false });
+    const readScheduleFile = () => JSON.parse(fs.readFileSync(`${storagePath}/agh_plus/Global/schedule`, 'utf8'));
+
+    beforeEach(() => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    });
+
+    it('catches up on a boundary missed while not running', async () => {
+      fs.mkdirSync(`${storagePath}/agh_plus/Global`, { recursive: true });
+      fs.writeFileSync(`${storagePath}/agh_plus/Global/schedule`,
+        JSON.stringify({ at: new Date().getTime() - 3 * 60 * 60 * 1000, state: false }));
+      const group = await createGroup({ name: 'Global', schedule: window(), nativePause: false });
+
+      await group.restoreSchedule();
+
+      await waitFor(() => !primary.state.protection_enabled);
+      expect(readScheduleFile().state).toBe(true);
+      expect(readScheduleFile().at).toBeGreaterThan(new Date().getTime());
+    });
+
+    it('leaves the switch alone on its first start, and waits for the next boundary', async () => {
+      const group = await createGroup({ name: 'Global', schedule: window(), nativePause: false });
+
+      await group.restoreSchedule();
+      await new Promise((resolve) => realSetTimeout(resolve, 100));
+
+      expect(primary.state.protection_enabled).toBe(true);
+      expect(readScheduleFile().state).toBe(true);
+    });
+
+    it('applies the next boundary when it comes', async () => {
+      primary.state.protection_enabled = false;
+      const group = await createGroup({ name: 'Global', schedule: window(), nativePause: false });
+      await group.restoreSchedule();
+
+      jest.advanceTimersByTime(2 * 60 * 60 * 1000);
+
+      await waitFor(() => primary.state.protection_enabled);
+      await waitFor(() => group.currentState === AdGuardHomeState.BLOCKING);
+    });
+  });
+
+  describe('clients', () => {
+    it('expands tags', async () => {
+      primary.addClient('Tablet', { tags: ['user_child'] });
+      primary.addClient('Phone', { tags: ['user_child'], use_global_settings: false, filtering_enabled: false,
+        use_global_blocked_services: false });
+      primary.addClient('Laptop');
+      const group = await createGroup({ name: 'Kids', clients: '@user_child' });
+      expect(group.currentState).toBe(AdGuardHomeState.INCONSISTENT);
+
+      primary.findClient('Tablet')!.use_global_settings = false;
+      primary.findClient('Tablet')!.filtering_enabled = false;
+      primary.findClient('Tablet')!.use_global_blocked_services = false;
+      await pollStatus(group);
+      expect(group.currentState).toBe(AdGuardHomeState.DISABLED);
+    });
+
+    it('snapshots client settings on disk and restores them', async () => {
+      const original = primary.addClient('Tablet', { use_global_settings: false, parental_enabled: true, blocked_services: ['tiktok'] });
+      const group = await createGroup({ name: 'Tablet', clients: 'Tablet' });
+      const snapshot = `${storagePath}/agh_plus/clients@server0/Tablet`;
+
+      await group.handleHomeKitSetEvent(group['switches'][0], false, 0);
+      expect(group.currentState).toBe(AdGuardHomeState.DISABLED);
+      expect(JSON.parse(fs.readFileSync(snapshot, 'utf8')).client).toEqual(original);
+
+      await pollStatus(group);
+      await group.handleHomeKitSetEvent(group['switches'][0], true, 0);
+      expect(primary.findClient('Tablet')).toEqual(original);
+      await waitFor(() => !fs.existsSync(snapshot));
+    });
+  });
+
+  describe('enforcement', () => {
+    const contactState = (group: AGHGroup) => group.accessory
+      .getServiceById(api.hap.Service.ContactSensor, 'tamper')!.getCharacteristic(api.hap.Characteristic.ContactSensorState).value;
+
+    it('changes an out-of-band change back and trips the alert', async () => {
+      const group = await createGroup({ name: 'Global', enforce: true });
+      expect(contactState(group)).toBe(api.hap.Characteristic.ContactSensorState.CONTACT_DETECTED);
+
+      primary.state.protection_enabled = false;
+      await pollStatus(group);
+      await waitFor(() => primary.state.protection_enabled);
+      expect((group['log'] as MockLogger).warn).toHaveBeenCalledWith(expect.stringContaining('\'server0\' is Disabled'));
+      expect(group.currentState).toBe(AdGuardHomeState.BLOCKING);
+      expect(contactState(group)).toBe(api.hap.Characteristic.ContactSensorState.CONTACT_NOT_DETECTED);
+
+      await pollStatus(group);
+      expect(contactState(group)).toBe(api.hap.Characteristic.ContactSensorState.CONTACT_DETECTED);
+    });
+
+    it('does not mistake a status read before its own change for tampering', async () => {
+      const group = await createGroup({ name: 'Global', enforce: true });
+      const stale = new Map([['server0', await servers[0].getCurrentStatus(group.statusQuery)]]);
+
+      await group.handleHomeKitSetEvent(group['switches'][0], false, 0);
+      group.update(stale);
+      await pollStatus(group);
+
+      expect(primary.state.protection_enabled).toBe(false);
+      expect(contactState(group)).toBe(api.hap.Characteristic.ContactSensorState.CONTACT_DETECTED);
+    });
+
+    it('leaves a replica that missed the last change to the replay', async () => {
+      const group = await createGroup({ name: 'Global', enforce: true }, servers);
+
+      replica.injectFault({ path: 'dns_config', status: 500 });
+      await group.handleHomeKitSetEvent(group['switches'][0], false, 0);
+      await waitFor(() => fs.existsSync(`${storagePath}/agh_plus/Global/desired`));
+
+      replica.clearFaults();
+      await pollStatus(group);
+      await waitFor(() => !replica.state.protection_enabled);
+      expect((group['log'] as MockLogger).warn).not.toHaveBeenCalledWith(expect.stringContaining('changed outside of the plugin'));
+      expect(contactState(group)).toBe(api.hap.Characteristic.ContactSensorState.CONTACT_DETECTED);
+    });
+
+    it('names the clients that changed, and gives up after a few tries', async () => {
+      primary.addClient('Tablet');
+      primary.addClient('Phone');
+      const group = await createGroup({ name: 'Kids', clients: 'Tablet,Phone', enforce: true, tamperAlert: 'button' });
+      const log = group['log'] as MockLogger;
+
+      for (let i = 0; i < 5; i++) {
+        Object.assign(primary.findClient('Tablet')!,
+          { use_global_settings: false, filtering_enabled: false, use_global_blocked_services: false });
+        await pollStatus(group);
+        await waitFor(() => !group['_writing']);
+      }
+      const warnings = log.warn.mock.calls.filter(([msg]) => msg.includes('changed outside of the plugin'));
+      expect(warnings).toHaveLength(3);
+      expect(warnings[0][0]).toContain('for [Tablet]');
+      expect(log.error).toHaveBeenCalledWith(expect.stringContaining('keeps ending up Inconsistent'));
+
+      // HomeKit shows what AdGuard Home is really doing, not the state it was meant to be in.
+      expect(group.currentState).toBe(AdGuardHomeState.INCONSISTENT);
+      expect(group['switches'][0].getCharacteristic(api.hap.Characteristic.On).value).toBe(false);
+    });
+  });
+});
@@ -1,7 +1,11 @@
 import { Service, PlatformAccessory, CharacteristicValue, Logger } from 'homebridge';
 import { AdGuardHomePlus } from './platform';
-import AGH, { AdGuardStatus as AGHStatus, AdGuardClientConfig } from './adguardhome';
-import ServiceManager, { ServiceType } from './serviceManager';
+import AGH, { AdGuardClientConfig, AdGuardStatus as AGHStatus, AdGuardStatusQuery, GlobalFeature } from './adguardhome';
+import ClientSnapshotStore from './clientSnapshotStore';
+import ServiceManager, { ServiceType, hasPauseSlider } from './serviceManager';
+import TamperAlert, { TamperAlertType } from './tamperAlert';
+import SwitchSchedule, { AdGuardServicesSchedule, ScheduleTransition, isSameServicesSchedule,
+  toAdGuardServicesSchedule } from './schedule';
 import fs_sync, {promises as fs} from 'fs';
 
 export const enum AdGuardHomeState {
@@ -11,6 +15,23 @@ export const enum AdGuardHomeState {
   UNAVAILABLE = 'Unavailable',
 }
 
+// How far our timer and AGH's pause may drift apart (ms) before the timer is restarted to match.
+const TIMER_SYNC_TOLERANCE = 5000;
+
+// How often a change is written again to servers that came back, before giving up on it.
+const MAX_REPLAY_ATTEMPTS = 3;
+
+// How often in a row an enforced switch changes a server back, before leaving it until someone looks into it.
+const MAX_ENFORCE_ATTEMPTS = 3;
+
+// A change that could not be written to every server. It is written again once they respond.
+interface DesiredState {
+  state: boolean;
+  pauseUntil: number;  // ms since epoch. 0 unless it was a timed change.
+  servers: string[];   // names of the servers still missing the change
+  attempts: number;    // how often it has been written again so far
+}
+
 /**
  * Platform Accessory
  * An instance of this class is created for each accessory your platform registers
@@ -32,6 +53,40 @@ export default class AdGuardHomeServiceGroup {
     return (this.services.length > 0);
   }
 
+  public get isSelectFilters(): boolean {
+    return (this.filters.length > 0);
+  }
+
+  public get isSelectRules(): boolean {
+    return (this.rules.length > 0);
+  }
+
+  public get isSelectFeature(): boolean {
+    return (this.feature !== undefined);
+  }
+
+  public get isGlobalProtection(): boolean {
+    return this.isGlobal && !this.isSelectServices && !this.isSelectFilters && !this.isSelectRules && !this.isSelectFeature;
+  }
+
+  // AGH can pause protection on its own, but it can't turn it on for a while. So only switches that
+  // pause protection (default 'on') can hand their timers over to the server.
+  public get usesNativePause(): boolean {
+    return this.nativePause && this.isGlobalProtection && this.defaultState;
+  }
+
+  public get statusQuery(): AdGuardStatusQuery {
+    return {
+      status: this.isGlobalProtection,
+      blockedServices: this.isGlobal && this.isSelectServices,
+      clients: !this.isGlobal, // Needed in both client cases for @tag expansion.
+      filtering: this.isSelectFilters || this.isSelectRules,
+      parental: this.feature === GlobalFeature.Parental,
+      safeBrowsing: this.feature === GlobalFeature.SafeBrowsing,
+      safeSearch: this.feature === GlobalFeature.SafeSearch,
+    };
+  }
+
   public get currentState(): AdGuardHomeState {
     return this._currentState;
   }
@@ -53,44 +108,92 @@ export default class AdGuardHomeServiceGroup {
     }
   }
 
+  // When the running timer restores the default state, in ms since epoch. 0 if there is no timer.
+  public get timerExpiry(): number {
+    return this._timerExpiry;
+  }
+
+  // Every change to the timer goes through here, so HomeKit always shows the time left.
+  private set timerExpiry(value: number) {
+    this._timerExpiry = value;
+    this.switches.forEach((service) => this.serviceManager.updateTimer(service));
+  }
+
+  // Changes are ignored while the servers disagree, unless 'forceState' is set.
+  public get acceptsChanges(): boolean {
+    return this.isConsistentState(this.currentState) || this.forceState;
+  }
+
+  public get serverNames(): string[] {
+    return this.servers.map((agh) => agh.name);
+  }
+
   public readonly serviceType: string;
+  public readonly defaultState: boolean;
 
   // Accessory Config
   private readonly groupName: string;
-  private readonly defaultState: boolean;
   private readonly forceState: boolean;
+  private readonly enforce: boolean;
+  private readonly nativePause: boolean;
   private readonly storageRoot: string;
   private readonly timerFile: string;
-  private readonly clientStorageRoot: string;
+  private readonly scheduleFile: string;
+  private readonly desiredFile: string;
+  private readonly schedule: SwitchSchedule | undefined;
+  private readonly servicesSchedule: AdGuardServicesSchedule | undefined;
+  private readonly clientSnapshots = new Map<string, ClientSnapshotStore>();
   private readonly isBridged: boolean;
   private readonly clients: string[];
   private readonly services: string[];
+  private readonly filters: string[];
+  private readonly rules: string[];
+  private readonly feature: string | undefined;
+  private readonly safeSearchEngines: string[];
   private readonly switches: Service[] = [];
   private readonly accessoryInfo: Service;
   private readonly serviceManager: ServiceManager;
+  private readonly tamperAlert: TamperAlert | undefined;
   private readonly log: Logger;
 
-  private _currentStatus: AGHStatus;
+  private _currentStatus: Map<string, AGHStatus>;
   private _currentState: AdGuardHomeState;
   private _targetState: AdGuardHomeState;
   private _currentTimer: NodeJS.Timeout | undefined;
+  private _timerExpiry = 0;
+  private _scheduleTimer: NodeJS.Timeout | undefined;
+  private _desired: DesiredState | undefined;
+  private _replaying = false;
+  private _intended: AdGuardHomeState | undefined;  // The state we last set (or first saw). Enforced switches keep to it.
+  private _writing = 0;         // changes being written right now
+  private _lastWriteAt = 0;     // ms since epoch. Statuses read before this may not show our last change yet.
+  private _enforceAttempts = 0;
+  private _credentialsRejected = false;  // by every server we could otherwise have read the state from
+  private _firstAttempt: Promise<boolean> = Promise.resolve(true);  // of the last change, on every server it went to
 
   constructor(
     private readonly platform: AdGuardHomePlus,
-    private readonly accessory: PlatformAccessory,
-    private readonly initialStatus: AGHStatus,
-    private readonly agh: AGH,
+    public readonly accessory: PlatformAccessory,
+    private readonly initialStatus: Map<string, AGHStatus>,
+    private readonly servers: AGH[],
   ) {
     const config = accessory.context.config;
     this.groupName = config['name'];
     this.defaultState = !(config['defaultState'] === false); // true, unless explicitly false
     this.forceState = (config['forceState'] === true);
+    this.enforce = (config['enforce'] === true);
+    this.nativePause = !(config['nativePause'] === false); // true, unless explicitly false
     this.serviceType = config['homekitType'] || ServiceType.Switch;
     this.storageRoot = this.platform.api.user.storagePath() + '/agh_plus/' + this.groupName.replace(/([^a-zA-Z0-9]+)/g, '_');
     this.timerFile = `${this.storageRoot}/timer`;
-    this.clientStorageRoot = this.platform.api.user.storagePath() + '/agh_plus/clients';  // Share client 'on' state across entire platform
+    this.scheduleFile = `${this.storageRoot}/schedule`;
+    this.desiredFile = `${this.storageRoot}/desired`;
     this.isBridged = !(config['bridged'] === false);
     this.log = platform.log;
+    this.servers.forEach((agh) => {
+      // Share client 'on' state across entire platform
+      this.clientSnapshots.set(agh.name, ClientSnapshotStore.forServer(this.platform.api.user.storagePath(), agh.name, this.log));
+    });
 
     this.log.info(`Initializing AdGuard Home Switch Group ${this.groupName}...`);
 
@@ -104,7 +207,63 @@ export default class AdGuardHomeServiceGroup {
 
     // Make sure client and service list are consistent.
     this.clients = (config['clients'] === undefined) ? [] : config['clients'].split(',').map((c) => c.trim());
-    this.services = (config['services'] === undefined) ? [] : config['services'].split(',').map((s) => s.trim());
+    const services: string[] = (config['services'] === undefined) ? []
+      : config['services'].split(',').map((s) => s.trim()).filter((s) => !!s);
+    this.services = this.platform.serviceCatalog?.resolve(this.groupName, services) ?? services;
+    if (services.length > 0 && this.services.length === 0) {
+      // Carrying on would turn this into a switch for all blocking.
+      const msg = `Switch group '${this.groupName}' has no services AdGuard Home knows about: [${services.join(',')}].`;
+      this.log.error(msg);
+      throw new Error(msg);
+    }
+    this.filters = (config['filters'] === undefined) ? [] : config['filters'].split(',').map((f) => f.trim());
+
+    // Rules may contain commas of their own ('$client=a,dnstype=A'). Those need to be given as an array.
+    this.rules = (config['rules'] === undefined) ? []
+      : (Array.isArray(config['rules']) ? config['rules'] : config['rules'].split(',')).map((r) => r.trim()).filter((r) => !!r);
+
+    this.feature = config['feature']?.trim().toLowerCase() || undefined;
+    this.safeSearchEngines = (config['safeSearchEngines'] === undefined) ? []
+      : config['safeSearchEngines'].split(',').map((e) => e.trim().toLowerCase()).filter((e) => !!e);
+    switch (this.feature) {
+      case undefined:
+      case GlobalFeature.Parental:
+      case GlobalFeature.SafeBrowsing:
+      case GlobalFeature.SafeSearch:
+        break;
+      default: {
+        const msg = `Switch group '${this.groupName}' has unknown feature '${this.feature}'.`;
+        this.log.error(msg);
+        throw new Error(msg);
+      }
+    }
+
+    // Filter lists, user rules and features are global in AdGuard Home. They can't be narrowed to clients or mixed with services.
+    const selections = [this.isSelectServices, this.isSelectFilters, this.isSelectRules, this.isSelectFeature]
+      .filter((selected) => selected).length;
+    if (selections > 1 || ((this.isSelectFilters || this.isSelectRules || this.isSelectFeature) && !this.isGlobal)) {
+      const msg = `Switch group '${this.groupName}' can only use one of 'services', 'filters', 'rules' or 'feature'.`
+        + ' (And \'filters\', \'rules\' or \'feature\' can not be combined with \'clients\'.)';
+      this.log.error(msg);
+      throw new Error(msg);
+    }
+
+    try {
+      this.schedule = config['schedule'] ? new SwitchSchedule(config['schedule'], this.groupName) : undefined;
+      // The config UI can leave an untouched schedule behind, with nothing but a time zone in it. That's no schedule.
+      const servicesSchedule = config['servicesSchedule'];
+      this.servicesSchedule = (servicesSchedule?.['start'] || servicesSchedule?.['end'])
+        ? toAdGuardServicesSchedule(servicesSchedule, this.groupName) : undefined;
+    } catch (err) {
+      this.log.error(`${err}`);
+      throw err;
+    }
+
+    if (this.servicesSchedule && !this.isSelectServices) {
+      const msg = `Switch group '${this.groupName}' has a 'servicesSchedule', but no 'services' for it to apply to.`;
+      this.log.error(msg);
+      throw new Error(msg);
+    }
 
     // Parse initial state
     this._currentStatus = this.initialStatus;
@@ -115,15 +274,27 @@ export default class AdGuardHomeServiceGroup {
     // Ensure the state directory exists
     try {
       fs_sync.mkdirSync(this.storageRoot, { recursive: true });
-      fs_sync.mkdirSync(this.clientStorageRoot, { recursive: true });
+      this.clientSnapshots.forEach((store) => store.ensureRoot());
     } catch (err) {
       this.log.warn(`Error creating state directory for '${this.groupName}'!`, err);
     }
 
+    // Pick up a change that was still waiting for its servers when we last shut down. It is read right away,
+    // so that anything newer (timers, schedules) replaces it rather than the other way around.
+    this._desired = this.readDesiredStorage();
+
     // Create a switch for each timeout given in config, or create a single non-timed switch.
     // If unbridged, only create the first.
     this.serviceManager = new ServiceManager(this, this.platform.api, this.log);
-    const timeoutValues = new Set<string>((config['autoResetTimes'] === undefined) ? ['0'] : config['autoResetTimes'].split(','));
+    let timeoutValues = new Set<string>((config['autoResetTimes'] === undefined) ? ['0'] : config['autoResetTimes'].split(','));
+    let timed = false;
+    if (hasPauseSlider(this.serviceType)) {
+      // The slider stands in for every timer there could be.
+      if (config['autoResetTimes'] !== undefined) {
+        this.log.warn(`Switch group '${this.groupName}' picks its timer with a slider. Ignoring 'autoResetTimes'.`);
+      }
+      timeoutValues = new Set<string>(['0']);
+    }
     for (const timeoutString of timeoutValues) {
       const timeout: number = parseInt(timeoutString);
 
@@ -136,6 +307,7 @@ export default class AdGuardHomeServiceGroup {
       const service = this.serviceManager.createService(accessory, timeout, initState, /* concise: */ (timeoutValues.size > 1));
       this.serviceManager.addEventHandlers(service, timeout);
       this.switches.push(service);
+      timed ||= (timeout > 0);
 
       // platform.ts should already ensure we only have 1 timeout value for unbridged accessories. But just in case...
       if (!this.isBridged) {
@@ -143,12 +315,29 @@ export default class AdGuardHomeServiceGroup {
       }
     }
 
+    this.serviceManager.createTimeLeftSensor(accessory, timed);
+
+    // Enforced switches raise an alert in HomeKit when they are tampered with.
+    this.tamperAlert = new TamperAlert(this.platform, accessory, this.groupName,
+      this.enforce ? (config['tamperAlert'] || TamperAlertType.Contact).trim().toLowerCase() : TamperAlertType.None, this.log);
+    if (this.isConsistentState(initState)) {
+      this._intended = initState;
+    }
+
     this.updateHomeKit(this.currentState);
 
     this.log.info(`AdGuard Home Switch Group ${this.groupName} initialized to ${initState}.`);
   }
 
   public async restoreUnfinishedTimers() {
+    // A pause AGH is keeping track of is the real thing. Pick up its remaining time, whatever the timer file says.
+    const serverPauseExpiry = this.getServerPauseExpiry(this._currentStatus);
+    if (serverPauseExpiry) {
+      const diff = Math.ceil((serverPauseExpiry - new Date().getTime()) / (60 * 1000)); // ms => min
+      this.log.info(`Restarting timer for '${this.groupName}' to match AdGuard Home's pause, which ends in ${diff} minutes.`);
+      return this.startTimerUntil(serverPauseExpiry);
+    }
+
     return this.readTimerStorage().then((timeout) => {
       // If the timeout is invalid or doesn't exist, reset the file and do nothing.
       if (!timeout || isNaN(timeout)) {
@@ -175,16 +364,77 @@ export default class AdGuardHomeServiceGroup {
       // If the timeout is in the future, then restart the timer.
       const diff = Math.ceil((timeout - now) / (60 * 1000)); // ms => min
       this.log.info(`Restarting timer for '${this.groupName}' to expire in ${diff} minutes.`);
-      return this.startNewTimer(diff);
+      return this.startTimerUntil(timeout);
     });
   }
 
-  public update(currentStatus: AGHStatus) {
+  public async restoreSchedule() {
+    if (!this.schedule || this.schedule.isEmpty) {
+      return;
+    }
+
+    // If the saved transition is in the past, at least one boundary passed while we weren't running.
+    // Catch up to the state of the most recent boundary before carrying on with the schedule.
+    const saved = await this.readScheduleStorage();
+    const last = this.schedule.lastTransition();
+    if (saved && saved.at <= new Date().getTime() && last) {
+      this.log.info(`Catching up on missed schedule for '${this.groupName}': ${this.toAGHState(last.state)} since ${new Date(last.at)}.`);
+      await this.applyScheduledState(last.state);
+    }
+
+    return this.scheduleNextTransition();
+  }
+
+  public targetsServer(agh: AGH): boolean {
+    return this.servers.includes(agh);
+  }
+
+  // Stops timers and schedules, for a group that is going away.
+  public stop() {
+    clearTimeout(this._currentTimer);
+    clearTimeout(this._scheduleTimer);
+    this._currentTimer = this._scheduleTimer = undefined;
+    this.serviceManager.stop();
+  }
+
+  public refreshIfIdle() {
+    this.platform.refreshIfIdle(this.servers);
+  }
+
+  public update(currentStatus: Map<string, AGHStatus>) {
     this._currentStatus = currentStatus;
+
+    // Enforced switches change things back instead of following along. That includes pauses from the AGH web UI.
+    // Once enforcing has given up, HomeKit follows the servers like it does for any other switch.
     const newState = this.getStateFromAdGuardStatus(currentStatus);
+    if (this.keepsStateForRejectedCredentials(currentStatus, newState)) {
+      return;
+    }
+    if (this.enforce && this.isTampered(this.withoutPendingServers(currentStatus)) && this.enforceIntendedState(currentStatus, newState)) {
+      return;
+    }
+
+    // Keep our timer in step with a pause AGH is running. (Including pauses started from the AGH web UI.)
+    const serverPauseExpiry = this.getServerPauseExpiry(currentStatus);
+    if (serverPauseExpiry && Math.abs(serverPauseExpiry - this._timerExpiry) > TIMER_SYNC_TOLERANCE) {
+      this.log.info(`Syncing timer for '${this.groupName}' with AdGuard Home's pause.`);
+      this.startTimerUntil(serverPauseExpiry);
+    }
+
     if (newState !== this.currentState) {
       this.updateHomeKit(newState, newState);
     }
+    if (newState === this._intended) {
+      this._enforceAttempts = 0;
+      this.tamperAlert?.clear();
+    } else if (this._intended === undefined && this.isConsistentState(newState)) {
+      this._intended = newState;
+    }
+
+    // Servers that missed the last change are back. Write it again.
+    if (this._desired && !this._replaying && this._desired.servers.every((name) => currentStatus.get(name)?.isAvailable === true)) {
+      this.replayDesiredState(this._desired);
+    }
   }
 
   public async handleHomeKitSetEvent(service: Service, value: CharacteristicValue, timeout: number) {
@@ -201,51 +451,192 @@ export default class AdGuardHomeServiceGroup {
     // If switching to non-default state on a timer switch... start the timer.
     // If switching back to the default state... cancel any timers.
     const newAGHState = !!value;
-    if (newAGHState !== this.defaultState) {
-      await this.startNewTimer(timeout);
-    } else {
-      await this.startNewTimer(0);
-    }
+    const pause = (newAGHState !== this.defaultState) ? timeout : 0;
+    await this.startNewTimer(pause);
 
     // Now change AdGuard state
-    return this.setAdGuardState(newAGHState).then(() => {
+    const write = this.setAdGuardState(newAGHState, pause).then(() => {
       // This doesn't take effect unless we've exited the 'onSet' handler. Use setTimeout().
       setTimeout(() => {
         this.updateHomeKit(this.currentState);
       });
     });
+
+    // Retries outlast HomeKit's patience. If the first try failed somewhere, answer now and let the tile catch up later.
+    return Promise.race([write, this._firstAttempt.then((ok) => ok ? write : undefined)]);
+  }
+
+  // Changes from outside HomeKit (the control API) take the same path as flipping the group's main switch.
+  public async setState(on: boolean, timeout: number) {
+    return this.handleHomeKitSetEvent(this.switches[0], on, timeout);
   }
 
-  private async setAdGuardState(agState: boolean): Promise<AdGuardHomeState> {
+  private async setAdGuardState(agState: boolean, pause = 0, servers: AGH[] = this.servers, attempts = 0): Promise<AdGuardHomeState> {
     // This is where we should post to AGH. The HTTP side of it should exist in the AGH class... but the knowledge of
     // which AGH API to POST to and what data to send to it reside in here. :/
-    const target = this.targetState = this.toAGHState(agState);
+    const target = this.targetState = this._intended = this.toAGHState(agState);
     this.log.info(`Setting current state for AdGuard Home Switch Group '${this.groupName}' initialized to (${target})`);
-    let successful = false;
+
+    // Replicas are kept in step by writing the same change to every server this group targets.
+    this._writing++;
+    const writes = servers.map((agh) => agh.withFirstAttempt(() => this.postAdGuardState(agh, agState, pause)));
+    this._firstAttempt = Promise.all(writes.map((write) => write.attempted)).then((ok) => ok.every((o) => o));
+    const results = await Promise.all(writes.map((write) => write.result))
+      .finally(() => {
+        this._writing--;
+        this._lastWriteAt = new Date().getTime();
+      });
+    const failed = servers.filter((agh, i) => !results[i]).map((agh) => agh.name);
+    const successful = (failed.length === 0);
+
+    if (!successful) {
+      this.log.warn(`Unable to change AdGuard Home status. Setting internal state to ${AdGuardHomeState.UNAVAILABLE}.`);
+    }
+    this.currentState = successful ? target : AdGuardHomeState.UNAVAILABLE;
+    this.platform.pollFast(servers);
+
+    // This is now the latest change. Either it made it everywhere, or it waits for the servers that missed it.
+    await this.writeDesiredState(successful ? undefined : {
+      state: agState,
+      pauseUntil: (pause > 0) ? new Date().getTime() + (pause * 60 * 1000) : 0,  // minutes => ms
+      servers: failed,
+      attempts: attempts,
+    });
+
+    return this.currentState;
+  }
+
+  // Whether the servers moved away from the state we set, without us. Our own changes take a poll to show up, and
+  // pauses run out on their own, so neither counts.
+  private isTampered(statuses: Map<string, AGHStatus>): boolean {
+    const state = this.getStateFromAdGuardStatus(statuses);
+    if (this._intended === undefined || state === this._intended || state === AdGuardHomeState.UNAVAILABLE || this._writing > 0) {
+      return false;
+    }
+    const available = this.servers.map((agh) => statuses.get(agh.name)).filter((status) => status?.isAvailable === true);
+    if (available.some((status) => status!.requestedAt < this._lastWriteAt)) {
+      return false;
+    }
+    const pauseEnding = (this._intended !== this.toAGHState(this.defaultState))
+      && this._timerExpiry > 0 && this._timerExpiry - new Date().getTime() < TIMER_SYNC_TOLERANCE;
+    return !pauseEnding;
+  }
+
+  // Servers that still have to be sent the last change are the replay's to bring in line. Leave them out until then.
+  private withoutPendingServers(statuses: Map<string, AGHStatus>): Map<string, AGHStatus> {
+    const pending = this._desired?.servers ?? [];
+    return new Map([...statuses].filter(([name]) => !pending.includes(name)));
+  }
+
+  // Servers that reject our credentials aren't down, and say nothing about the switches. Keep showing the last
+  // state instead of calling the group unavailable, until the credentials are fixed.
+  private keepsStateForRejectedCredentials(statuses: Map<string, AGHStatus>, newState: AdGuardHomeState): boolean {
+    const rejecting = this.servers.filter((agh) => statuses.get(agh.name)?.isAuthorized === false).map((agh) => agh.name);
+    const wasRejected = this._credentialsRejected;
+    this._credentialsRejected = (newState === AdGuardHomeState.UNAVAILABLE && rejecting.length > 0);
+    if (this._credentialsRejected && !wasRejected) {
+      this.log.error(`Keeping '${this.groupName}' at ${this.currentState}: AdGuard Home [${rejecting.join(',')}] rejected `
+        + 'the configured username/password.');
+    }
+    return this._credentialsRejected;
+  }
+
+  // Returns false once it has given up on the group.
+  private enforceIntendedState(statuses: Map<string, AGHStatus>, found: AdGuardHomeState): boolean {
+    const intended = this._intended!;
+    if (++this._enforceAttempts > MAX_ENFORCE_ATTEMPTS) {
+      if (this._enforceAttempts === MAX_ENFORCE_ATTEMPTS + 1) {
+        this.log.error(`Switch group '${this.groupName}' keeps ending up ${found} instead of ${intended}. `
+          + `Leaving it alone until it is ${intended} again.`);
+      }
+      return false;
+    }
+
+    this.log.warn(`Switch group '${this.groupName}' was changed outside of the plugin: ${this.describeDrift(statuses, intended)}. `
+      + `Changing it back to ${intended}.`);
+    this.tamperAlert?.trip();
+
+    // A pause that was cut short only gets the rest of its time back.
+    const remaining = this._timerExpiry ? Math.ceil((this._timerExpiry - new Date().getTime()) / (60 * 1000)) : 0;  // ms => min
+    const pause = (intended !== this.toAGHState(this.defaultState)) ? Math.max(remaining, 0) : 0;
+    this.setAdGuardState(intended === AdGuardHomeState.BLOCKING, pause).then((agState) => this.updateHomeKit(agState));
+    return true;
+  }
+
+  // Which servers, and which clients on them, are not in the 'expected' state. AdGuard Home doesn't say who made a
+  // change, so this is as close as we can get.
+  private describeDrift(statuses: Map<string, AGHStatus>, expected: AdGuardHomeState): string {
+    return this.servers.map((agh) => {
+      const status = statuses.get(agh.name);
+      const state = this.getStateFromServerStatus(agh, status);
+      if (state === expected || state === AdGuardHomeState.UNAVAILABLE) {
+        return undefined;
+      }
+      const clients = this.isGlobal ? [] : agh.expandTags(this.clients).filter((client) => {
+        const clientStatus = status!.clients.find((c) => c.name === client);
+        return clientStatus !== undefined && this.compareClient(agh, clientStatus) !== (expected === AdGuardHomeState.BLOCKING ? 1 : -1);
+      });
+      return `'${agh.name}' is ${state}${clients.length ? ` for [${clients.join(',')}]` : ''}`;
+    }).filter((drift) => drift !== undefined).join(', ');
+  }
+
+  private async replayDesiredState(desired: DesiredState) {
+    const now = new Date().getTime();
+    if (desired.pauseUntil && desired.pauseUntil <= now) {
+      // The timer that ends the pause takes care of things from here.
+      this.log.info(`Dropping pending change for '${this.groupName}'. Its timer has already run out.`);
+      return this.writeDesiredState(undefined);
+    } else if (desired.attempts >= MAX_REPLAY_ATTEMPTS) {
+      this.log.warn(`Giving up on setting '${this.groupName}' to ${this.toAGHState(desired.state)} on `
+        + `[${desired.servers.join(',')}] after ${desired.attempts} attempts.`);
+      return this.writeDesiredState(undefined);
+    }
+
+    this.log.info(`AdGuard Home [${desired.servers.join(',')}] responding again. Setting '${this.groupName}' to `
+      + `${this.toAGHState(desired.state)} as last requested.`);
+    this._replaying = true;
+    const pause = desired.pauseUntil ? (desired.pauseUntil - now) / (60 * 1000) : 0;  // ms => minutes
+    const servers = this.servers.filter((agh) => desired.servers.includes(agh.name));
+    return this.setAdGuardState(desired.state, pause, servers, desired.attempts + 1)
+      .then((agState) => this.updateHomeKit(agState, this.toAGHState(desired.state)))
+      .finally(() => this._replaying = false);
+  }
+
+  private async postAdGuardState(agh: AGH, agState: boolean, pause: number): Promise<boolean> {
+    if (this.isSelectFilters) {
+      return agh.postFilters(agState, this.filters);
+    }
+
+    if (this.isSelectRules) {
+      return agh.postRules(agState, this.rules);
+    }
+
+    if (this.isSelectFeature) {
+      return agh.postFeature(agState, this.feature!, this.safeSearchEngines);
+    }
+
     if (this.isGlobal) {
       if (this.isSelectServices) {
-        successful = await this.agh.postGlobalServices(agState, this.services);
-      } else {
-        successful = await this.agh.postGlobal(agState);
+        return agh.postGlobalServices(agState, this.services, this.servicesSchedule);
       }
-    } else {
-      if (this.isSelectServices) {
-        successful = await this.agh.postClientServices(agState, this.clients, this.services);
-      } else {
-        // Clients requires special handling. If turning blocking off, we need to store the options/services that
-        // are currently specified for each client so we can restore the same state when re-enabling blocking.
-        successful = await this.agh.postClients(agState, this.clients,
-          /* readClientDataAsync: */ (cname) => this.readClientState(cname),
-          /* writeClientDataAsync: */ (cname, data) => this.writeClientState(cname, data));
+      // Only '/control/protection' ends a pause early. 'dns_config' leaves AGH's pause timer running.
+      if ((pause > 0 || agState) && this.usesNativePause) {
+        return agh.postProtection(agState, Math.round(pause * 60 * 1000)); // minutes => ms
       }
+      return agh.postGlobal(agState);
     }
 
-    if (!successful) {
-      this.log.warn(`Unable to change AdGuard Home status. Setting internal state to ${AdGuardHomeState.UNAVAILABLE}.`);
+    if (this.isSelectServices) {
+      return agh.postClientServices(agState, this.clients, this.services, this.servicesSchedule);
     }
-    this.currentState = successful ? target : AdGuardHomeState.UNAVAILABLE;
 
-    return this.currentState;
+    // Clients requires special handling. If turning blocking off, we need to store the options/services that
+    // are currently specified for each client so we can restore the same state when re-enabling blocking.
+    const snapshots = this.clientSnapshots.get(agh.name)!;
+    return agh.postClients(agState, this.clients,
+      /* readSnapshotAsync: */ (cname) => snapshots.read(cname, false),
+      /* writeSnapshotAsync: */ (cname, snapshot) => snapshots.write(cname, snapshot),
+      /* removeSnapshotAsync: */ (cname) => snapshots.remove(cname));
   }
 
   private updateHomeKit(state: AdGuardHomeState, target: AdGuardHomeState = this.targetState ) {
@@ -256,56 +647,60 @@ export default class AdGuardHomeServiceGroup {
     this.currentState = state;
   }
 
-  private getStateFromAdGuardStatus(status: AGHStatus): AdGuardHomeState {
-    if (status.isAvailable !== true) {
+  private getStateFromAdGuardStatus(statuses: Map<string, AGHStatus>): AdGuardHomeState {
+    // Replicas that are down don't get a say. Those that are up must all agree.
+    const states = this.servers.map((agh) => this.getStateFromServerStatus(agh, statuses.get(agh.name)))
+      .filter((state) => state !== AdGuardHomeState.UNAVAILABLE);
+
+    if (states.length === 0) {
+      return AdGuardHomeState.UNAVAILABLE;
+    } else if (states.some((state) => state !== states[0])) {
+      this.log.debug(`getStateFromAdGuardStatus: Servers disagree for '${this.groupName}': [${states.join(',')}]`);
+      return AdGuardHomeState.INCONSISTENT;
+    }
+
+    return states[0];
+  }
+
+  private getStateFromServerStatus(agh: AGH, status: AGHStatus | undefined): AdGuardHomeState {
+    if (status?.isAvailable !== true) {
       return AdGuardHomeState.UNAVAILABLE;
     }
 
     // Check the status report and see if our little corner is enabled or disabled
     // -1: none, 0: some, 1: all
     let cmp = 0;
-    if (this.isGlobal) {
+    if (this.isSelectFilters) {
+      // Like services, a filter list that doesn't exist can never be enabled.
+      const enabledFilters = this.filters.filter((f) => agh.findFilter(status.filters, f)?.enabled === true);
+      cmp = this.containsAllOrNone(enabledFilters, this.filters);
+    } else if (this.isSelectRules) {
+      cmp = this.containsAllOrNone(status.user_rules, this.rules);
+    } else if (this.isSelectFeature) {
+      cmp = this.getFeatureComparison(status);
+    } else if (this.isGlobal) {
       if (this.isSelectServices) {
-        cmp = this.containsAllOrNone(status.blocked_services, this.services);
+        cmp = this.compareServices(status.blocked_services, status.blocked_services_schedule);
       } else {
         cmp = status.enabled ? 1 : -1;
       }
     } else {
-      const clientList = this.agh.expandTags(this.clients);
+      const clientList = agh.expandTags(this.clients);
       let all = true;
       let none = true;
       this.log.debug(`getStateFromAdGuardStatus: Checking client list: [${clientList.join(',')}]`);
-      if (this.isSelectServices) {
-        clientList.forEach((client) => {
-          const clientStatus = status.clients.find((c) => c.name === client);
-          if (clientStatus !== undefined) {
-            const ccomp = this.containsAllOrNone(clientStatus.blocked_services, this.services);
-            this.log.debug(`    Client[${client}] service check: ${ccomp}`);
-            all &&= (ccomp > 0);
-            none &&= (ccomp < 0);
-          } else {
-            this.log.debug(`    Client[${client}] service check: not found`);
-            all = false;
-          }
-        });
-      } else {
-        // Clients with no service list: any of 1) filtering enabled, 2) safe search enabled, or 3) services blocked
-        // means blocking is enabled. All three need to be turned off to qualify as disabled. Like the 'global' switch
-        // without services, there is no 'inconsistent' state for any one client. However, multiple clients can be on
-        // or off, which would be inconsistent as a group - so use the same boolean accumulation used with client services.
-        clientList.forEach((client) => {
-          const clientStatus = status.clients.find((c) => c.name === client);
-          if (clientStatus !== undefined) {
-            const blocking = this.agh.isBlockingEnabled(clientStatus);
-            this.log.debug(`    Client[${client}] blocking check: ${blocking}`);
-            all &&= blocking;
-            none &&= !blocking;
-          } else {
-            this.log.debug(`    Client[${client}] blocking check: not found`);
-            all = false;
-          }
-        });
-      }
+      clientList.forEach((client) => {
+        const clientStatus = status.clients.find((c) => c.name === client);
+        if (clientStatus !== undefined) {
+          const ccomp = this.compareClient(agh, clientStatus);
+          this.log.debug(`    Client[${client}] check: ${ccomp}`);
+          all &&= (ccomp > 0);
+          none &&= (ccomp < 0);
+        } else {
+          this.log.debug(`    Client[${client}] check: not found`);
+          all = false;
+        }
+      });
       cmp = (all ? 1 : (none ? -1 : 0));
     }
 
@@ -318,6 +713,52 @@ export default class AdGuardHomeServiceGroup {
     return AdGuardHomeState.INCONSISTENT;
   }
 
+  // -1: none, 0: some, 1: all, for a single client of a client switch.
+  private compareClient(agh: AGH, clientStatus: AdGuardClientConfig): number {
+    if (this.isSelectServices) {
+      return this.compareServices(clientStatus.blocked_services ?? [], clientStatus.blocked_services_schedule);
+    }
+
+    // Clients with no service list: any of 1) filtering enabled, 2) safe search enabled, or 3) services blocked
+    // means blocking is enabled. All three need to be turned off to qualify as disabled. Like the 'global' switch
+    // without services, there is no 'inconsistent' state for any one client. However, multiple clients can be on
+    // or off, which would be inconsistent as a group - so use the same boolean accumulation used with client services.
+    return agh.isBlockingEnabled(clientStatus) ? 1 : -1;
+  }
+
+  private getServerPauseExpiry(statuses: Map<string, AGHStatus>): number | undefined {
+    if (!this.usesNativePause) {
+      return undefined;
+    }
+
+    // Replicas were all paused together. Go with whichever will be paused the longest.
+    const expiries = this.servers.map((agh) => statuses.get(agh.name))
+      .filter((status) => status?.isAvailable === true && status.enabled === false)
+      .map((status) => status!.protection_disabled_until ?? 0)
+      .filter((expiry) => expiry > new Date().getTime());
+    return (expiries.length > 0) ? Math.max(...expiries) : undefined;
+  }
+
+  private getFeatureComparison(status: AGHStatus): number {
+    switch (this.feature) {
+      case GlobalFeature.Parental:
+        return status.parental_enabled ? 1 : -1;
+      case GlobalFeature.SafeBrowsing:
+        return status.safebrowsing_enabled ? 1 : -1;
+      case GlobalFeature.SafeSearch: {
+        // Engines only count as 'on' while safe search itself is enabled.
+        if (!status.safe_search?.enabled) {
+          return -1;
+        } else if (this.safeSearchEngines.length === 0) {
+          return 1;
+        }
+        const engines = status.safe_search.engines;
+        return this.containsAllOrNone(Object.keys(engines).filter((e) => engines[e] === true), this.safeSearchEngines);
+      }
+    }
+    return 0;
+  }
+
   private async startNewTimer(minutes: number) {
     // Sanitize timeout
     const timeout = minutes < 0 ? 0 : minutes > Number.MAX_SAFE_INTEGER ? Number.MAX_SAFE_INTEGER : minutes;
@@ -331,64 +772,113 @@ export default class AdGuardHomeServiceGroup {
     // If no timeout, then clear the timer file and do nothing else.
     if (timeout === 0) {
       this.log.debug(`Clearing any existing timers for '${this.groupName}'.`);
+      this.timerExpiry = 0;
       return this.writeTimerStorage(0);
     }
 
-    const newTimeout = new Date().getTime() + (timeout * 60 * 1000);
     this.log.info(`Starting new timer for '${this.groupName}': ${timeout} minutes`);
-    return this.writeTimerStorage(newTimeout).then(() => {
+    return this.startTimerUntil(new Date().getTime() + (timeout * 60 * 1000));  // minutes => ms
+  }
+
+  private async startTimerUntil(expiry: number) {
+    if (this._currentTimer) {
+      clearTimeout(this._currentTimer);
+    }
+
+    this.timerExpiry = expiry;
+    return this.writeTimerStorage(expiry).then(() => {
       this._currentTimer = setTimeout(async () => {
+        // AGH ends its own pauses. Restoring the default state here as well is harmless, and covers the case
+        // where the server was unreachable when the pause was supposed to end.
         this.log.info(`Timer expired: Restoring '${this.groupName}' to its default state - ${this.defaultState}.`);
+        this.timerExpiry = 0;
         this.writeTimerStorage(0).then(() => {
           this.setAdGuardState(this.defaultState).then((agState) => {
             this.updateHomeKit(agState, this.toAGHState(this.defaultState));
           });
         });
-      }, timeout * 60 * 1000);  // minutes => ms
+      }, expiry - new Date().getTime());
     });
   }
 
-  private async readTimerStorage(): Promise<number | undefined> {
-    return fs.readFile(this.timerFile, 'utf8')
-      .then((s) => parseInt(s))
+  private async scheduleNextTransition() {
+    if (this._scheduleTimer) {
+      clearTimeout(this._scheduleTimer);
+    }
+
+    const next = this.schedule?.nextTransition();
+    if (!next) {
+      return;
+    }
+
+    this.log.info(`Next scheduled change for '${this.groupName}': ${this.toAGHState(next.state)} at ${new Date(next.at)}.`);
+    return this.writeScheduleStorage(next).then(() => {
+      this._scheduleTimer = setTimeout(async () => {
+        await this.applyScheduledState(next.state);
+        this.scheduleNextTransition();
+      }, next.at - new Date().getTime());
+    });
+  }
+
+  private async applyScheduledState(state: boolean) {
+    // The schedule wins over anything that was set by hand, including timers.
+    this.log.info(`Schedule: Setting '${this.groupName}' to ${this.toAGHState(state)}.`);
+    await this.startNewTimer(0);
+    return this.setAdGuardState(state).then((agState) => {
+      this.updateHomeKit(agState, this.toAGHState(state));
+    });
+  }
+
+  private async readScheduleStorage(): Promise<ScheduleTransition | undefined> {
+    return fs.readFile(this.scheduleFile, 'utf8')
+      .then((s) => JSON.parse(s))
       .catch((err) => {
-        this.log.debug('Failed to read timer file:', err);
+        this.log.debug('Failed to read schedule file:', err);
         return undefined;
       });
   }
 
-  private async writeTimerStorage(timer: number): Promise<void> {
-    return fs.writeFile(this.timerFile, timer.toString(), 'utf8')
+  private async writeScheduleStorage(transition: ScheduleTransition): Promise<void> {
+    return fs.writeFile(this.scheduleFile, JSON.stringify(transition), 'utf8')
       .catch((err) => {
-        this.log.warn('Failed to write timer file:', err);
+        this.log.warn('Failed to write schedule file:', err);
       });
   }
 
-  private async readClientState(name: string, clearStorage = true): Promise<AdGuardClientConfig> {
-    if (!name) {  // name is null/empty/undefined
-      return null;
+  private readDesiredStorage(): DesiredState | undefined {
+    try {
+      return JSON.parse(fs_sync.readFileSync(this.desiredFile, 'utf8'));
+    } catch (err) {
+      return undefined;  // Nothing pending
     }
+  }
 
-    this.log.debug(`Reading saved client[${name}] state...`);
-    return fs.readFile(`${this.clientStorageRoot}/${name}`, 'utf8')
-      .then((s) => JSON.parse(s))
-      .then((state) => {
-        if (clearStorage) {
-          fs.unlink(`${this.clientStorageRoot}/${name}`);
-        }
-        return state;
-      })
+  private async writeDesiredState(desired: DesiredState | undefined): Promise<void> {
+    const hadDesired = !!this._desired;
+    this._desired = desired;
+    if (!desired) {
+      return hadDesired ? fs.unlink(this.desiredFile).catch(() => undefined) : undefined;
+    }
+
+    return fs.writeFile(this.desiredFile, JSON.stringify(desired), 'utf8')
       .catch((err) => {
-        this.log.warn(`Failed while reading saved client[${name}] state:`, err);
-        return null;
+        this.log.warn('Failed to write pending change file:', err);
       });
   }
 
-  private async writeClientState(name: string, data: AdGuardClientConfig): Promise<void> {
-    this.log.debug(`Saving client[${name}] state...`);
-    return fs.writeFile(`${this.clientStorageRoot}/${name}`, JSON.stringify(data), 'utf8')
+  private async readTimerStorage(): Promise<number | undefined> {
+    return fs.readFile(this.timerFile, 'utf8')
+      .then((s) => parseInt(s))
       .catch((err) => {
-        this.log.warn(`Failed while writing saved client[${name}] state:`, err);
+        this.log.debug('Failed to read timer file:', err);
+        return undefined;
+      });
+  }
+
+  private async writeTimerStorage(timer: number): Promise<void> {
+    return fs.writeFile(this.timerFile, timer.toString(), 'utf8')
+      .catch((err) => {
+        this.log.warn('Failed to write timer file:', err);
       });
   }
 
@@ -416,6 +906,15 @@ export default class AdGuardHomeServiceGroup {
     return bState ? AdGuardHomeState.BLOCKING : AdGuardHomeState.DISABLED;
   }
 
+  private compareServices(blockedServices: string[], schedule: AdGuardServicesSchedule | undefined): number {
+    // With its own schedule, the switch is only 'on' while AGH is also following that schedule.
+    const cmp = this.containsAllOrNone(blockedServices ?? [], this.services);
+    if (cmp > 0 && this.servicesSchedule && !isSameServicesSchedule(schedule, this.servicesSchedule)) {
+      return 0;
+    }
+    return cmp;
+  }
+
   private containsAllOrNone(superset: string[], subset: string[]): number {
     let all = true;
     let none = true;
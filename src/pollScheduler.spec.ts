@@ -0,0 +1,121 @@
+import PollScheduler, { PollSchedulerOptions } from './pollScheduler';
+import { createMockLogger } from './mocks/homebridge';
+
+const OPTIONS: PollSchedulerOptions = {
+  interval: 10000,
+  maxInterval: 60000,
+  fastInterval: 1000,
+  fastDuration: 5000,
+  idleRefreshAfter: 30000,
+};
+
+describe('PollScheduler', () => {
+  let available: boolean;
+  let poll: jest.Mock<Promise<boolean>, []>;
+  let scheduler: PollScheduler;
+
+  // Runs due timers, then lets the poll's promise chain settle so the next one gets scheduled.
+  const advance = async (ms: number) => {
+    await jest.advanceTimersByTimeAsync(ms);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    available = true;
+    poll = jest.fn(async () => available);
+    scheduler = new PollScheduler('test', poll, OPTIONS, createMockLogger());
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    jest.useRealTimers();
+  });
+
+  it('polls on the regular interval', async () => {
+    scheduler.start();
+
+    await advance(9999);
+    expect(poll).toHaveBeenCalledTimes(0);
+    await advance(1);
+    expect(poll).toHaveBeenCalledTimes(1);
+    await advance(10000);
+    expect(poll).toHaveBeenCalledTimes(2);
+  });
+
+  it('never overlaps a slow poll', async () => {
+    let finish: (value: boolean) => void = () => undefined;
+    poll.mockImplementationOnce(() => new Promise((resolve) => finish = resolve));
+    scheduler.start();
+
+    await advance(10000);
+    scheduler.refreshIfIdle();
+    scheduler.pollNow();
+    await advance(60000);
+    expect(poll).toHaveBeenCalledTimes(1);
+
+    finish(true);
+    await advance(10000);
+    expect(poll).toHaveBeenCalledTimes(2);
+  });
+
+  it('backs off while the server is unavailable, and recovers', async () => {
+    available = false;
+    scheduler.start();
+
+    await advance(10000);  // 1st failure. Next in 10s.
+    await advance(10000);  // 2nd failure. Next in 20s.
+    expect(scheduler.nextDelay).toBe(20000);
+    await advance(20000);  // 3rd failure. Next in 40s.
+    await advance(40000);  // 4th failure. Capped at 60s.
+    expect(poll).toHaveBeenCalledTimes(4);
+    expect(scheduler.nextDelay).toBe(60000);
+
+    available = true;
+    await advance(60000);
+    expect(poll).toHaveBeenCalledTimes(5);
+    expect(scheduler.nextDelay).toBe(10000);
+  });
+
+  it('polls fast for a while after a write', async () => {
+    scheduler.start();
+
+    scheduler.pollFast();
+    await advance(1000);
+    expect(poll).toHaveBeenCalledTimes(1);
+    await advance(4000);
+    expect(poll).toHaveBeenCalledTimes(5);
+
+    // Back to normal once the fast period is over.
+    await advance(1000);
+    expect(poll).toHaveBeenCalledTimes(5);
+    await advance(10000);
+    expect(poll).toHaveBeenCalledTimes(6);
+  });
+
+  it('refreshes on a read only after being idle', async () => {
+    available = false;
+    scheduler.start();
+    await advance(10000);
+    expect(poll).toHaveBeenCalledTimes(1);
+
+    scheduler.refreshIfIdle();  // Just polled. Nothing to do.
+    await advance(0);
+    expect(poll).toHaveBeenCalledTimes(1);
+
+    await advance(10000 + 20000);  // 2nd and 3rd failures. The next poll is 40s away.
+    await advance(35000);
+    expect(poll).toHaveBeenCalledTimes(3);
+
+    scheduler.refreshIfIdle();
+    await advance(0);
+    expect(poll).toHaveBeenCalledTimes(4);
+  });
+
+  it('stops polling when stopped', async () => {
+    scheduler.start();
+    scheduler.stop();
+
+    await advance(60000);
+    expect(poll).not.toHaveBeenCalled();
+  });
+});
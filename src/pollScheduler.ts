@@ -0,0 +1,122 @@
+import { Logger } from 'homebridge';
+
+export interface PollSchedulerOptions {
+  interval: number;          // ms between polls while the server is responding
+  maxInterval: number;       // ms. Backoff never waits longer than this.
+  fastInterval: number;      // ms between polls shortly after a write
+  fastDuration: number;      // ms. How long to keep polling fast after a write.
+  idleRefreshAfter: number;  // ms. A read from HomeKit polls right away if the last poll is older than this.
+}
+
+export const DEFAULT_POLL_OPTIONS: PollSchedulerOptions = {
+  interval: 10000,
+  maxInterval: 5 * 60 * 1000,
+  fastInterval: 2000,
+  fastDuration: 30000,
+  idleRefreshAfter: 30000,
+};
+
+/**
+ * Poll Scheduler
+ * Runs one server's status poll, one at a time. The next poll is only scheduled once the current one is done,
+ * so slow servers can't pile up requests.
+ *
+ * While the server isn't responding, the wait doubles after every failed poll (up to 'maxInterval'). After a
+ * write, polls come every 'fastInterval' for a while so the result shows up quickly. And if HomeKit asks for a
+ * value after the scheduler has been quiet for a while, it polls right away instead of waiting its turn.
+ */
+export default class PollScheduler {
+  private timer: NodeJS.Timeout | undefined;
+  private inFlight: Promise<void> | undefined;
+  private stopped = true;
+  private failures = 0;
+  private fastUntil = 0;
+  private lastPollAt = 0;
+
+  constructor(
+    private readonly name: string,
+    private readonly poll: () => Promise<boolean>,  // true if the server responded
+    private readonly options: PollSchedulerOptions,
+    private readonly log: Logger,
+  ) {}
+
+  public get nextDelay(): number {
+    if (this.failures > 0) {
+      return Math.min(this.options.interval * Math.pow(2, this.failures - 1), this.options.maxInterval);
+    }
+    return (new Date().getTime() < this.fastUntil) ? Math.min(this.options.fastInterval, this.options.interval) : this.options.interval;
+  }
+
+  public start() {
+    // Whoever starts us has just read the status.
+    this.lastPollAt = new Date().getTime();
+    this.stopped = false;
+    this.schedule(this.options.interval);
+  }
+
+  public stop() {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  public pollFast() {
+    this.fastUntil = new Date().getTime() + this.options.fastDuration;
+    // Don't make a backed-off or normal wait run its course. The write just told us something changed.
+    if (!this.inFlight && !this.stopped) {
+      this.schedule(Math.min(this.options.fastInterval, this.options.interval));
+    }
+  }
+
+  public refreshIfIdle() {
+    if (!this.inFlight && !this.stopped && (new Date().getTime() - this.lastPollAt) > this.options.idleRefreshAfter) {
+      this.log.debug(`Poll[${this.name}]: Refreshing after ${Math.round((new Date().getTime() - this.lastPollAt) / 1000)}s idle.`);
+      this.pollNow();
+    }
+  }
+
+  public async pollNow(): Promise<void> {
+    // Join a poll that is already running rather than starting another.
+    if (this.inFlight) {
+      return this.inFlight;
+    }
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    this.inFlight = this.poll()
+      .catch((error) => {
+        this.log.error(`Poll[${this.name}]: Status poll failed!`, error);
+        return false;
+      })
+      .then((available) => {
+        this.lastPollAt = new Date().getTime();
+        this.failures = available ? 0 : this.failures + 1;
+        if (this.failures > 1) {
+          this.log.debug(`Poll[${this.name}]: Still not responding. Next try in ${this.nextDelay / 1000}s.`);
+        }
+      })
+      .finally(() => {
+        this.inFlight = undefined;
+        this.schedule(this.nextDelay);
+      });
+    return this.inFlight;
+  }
+
+  private schedule(delay: number) {
+    if (this.stopped) {
+      return;
+    }
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.pollNow();
+    }, delay);
+  }
+}
@@ -0,0 +1,121 @@
+import SwitchSchedule, { isSameServicesSchedule, toAdGuardServicesSchedule } from './schedule';
+
+const HOUR = 60 * 60 * 1000;
+
+// Local wall-clock time. Tests run in Europe/Berlin (see mocks/globalSetup.ts), where clocks go forward on
+// 2024-03-31 and back on 2024-10-27.
+const at = (year: number, month: number, day: number, hours: number, minutes = 0) =>
+  new Date(year, month - 1, day, hours, minutes).getTime();
+
+describe('SwitchSchedule', () => {
+  it('finds the boundaries of a same-day window', () => {
+    const schedule = new SwitchSchedule({ days: 'mon', start: '09:00', end: '17:00' }, 'Kids');
+
+    expect(schedule.nextTransition(at(2024, 3, 4, 8))).toEqual({ at: at(2024, 3, 4, 9), state: true });
+    expect(schedule.nextTransition(at(2024, 3, 4, 10))).toEqual({ at: at(2024, 3, 4, 17), state: false });
+    expect(schedule.lastTransition(at(2024, 3, 4, 10))).toEqual({ at: at(2024, 3, 4, 9), state: true });
+  });
+
+  it('comes around again the next week', () => {
+    const schedule = new SwitchSchedule({ days: 'mon', start: '09:00', end: '17:00' }, 'Kids');
+
+    expect(schedule.nextTransition(at(2024, 3, 5, 12))).toEqual({ at: at(2024, 3, 11, 9), state: true });
+    expect(schedule.lastTransition(at(2024, 3, 5, 12))).toEqual({ at: at(2024, 3, 4, 17), state: false });
+  });
+
+  it('ends overnight windows on the next day', () => {
+    const schedule = new SwitchSchedule({ days: 'fri', start: '22:00', end: '06:00', state: false }, 'Kids');
+
+    expect(schedule.lastTransition(at(2024, 3, 9, 3))).toEqual({ at: at(2024, 3, 8, 22), state: false });
+    expect(schedule.nextTransition(at(2024, 3, 9, 3))).toEqual({ at: at(2024, 3, 9, 6), state: true });
+  });
+
+  it('keeps to the wall clock across daylight saving changes', () => {
+    const schedule = new SwitchSchedule({ start: '01:00', end: '06:00' }, 'Kids');
+
+    expect(new Date(at(2024, 3, 31, 12)).getTimezoneOffset()).not.toBe(new Date(at(2024, 3, 30, 12)).getTimezoneOffset());
+
+    const spring = schedule.nextTransition(at(2024, 3, 31, 1, 30));
+    expect(spring).toEqual({ at: at(2024, 3, 31, 6), state: false });
+    expect(spring!.at - at(2024, 3, 31, 1)).toBe(4 * HOUR);  // An hour short
+
+    const autumn = schedule.nextTransition(at(2024, 10, 27, 1, 30));
+    expect(autumn).toEqual({ at: at(2024, 10, 27, 6), state: false });
+    expect(autumn!.at - at(2024, 10, 27, 1)).toBe(6 * HOUR);  // An hour long
+  });
+
+  it('combines several windows', () => {
+    const schedule = new SwitchSchedule([
+      { days: 'mon,tue', start: '20:00', end: '07:00' },
+      { days: 'sat', start: '12:00', end: '14:00', state: false },
+    ], 'Kids');
+
+    expect(schedule.nextTransition(at(2024, 3, 6, 9))).toEqual({ at: at(2024, 3, 9, 12), state: false });
+    expect(schedule.lastTransition(at(2024, 3, 6, 9))).toEqual({ at: at(2024, 3, 6, 7), state: false });
+  });
+
+  it('has no transitions without windows', () => {
+    const schedule = new SwitchSchedule([], 'Kids');
+
+    expect(schedule.isEmpty).toBe(true);
+    expect(schedule.nextTransition()).toBeUndefined();
+    expect(schedule.lastTransition()).toBeUndefined();
+  });
+
+  it('rejects invalid days and times', () => {
+    expect(() => new SwitchSchedule({ days: 'mon,someday', start: '09:00', end: '17:00' }, 'Kids')).toThrow(/invalid day 'someday'/);
+    expect(() => new SwitchSchedule({ start: '9am', end: '17:00' }, 'Kids')).toThrow(/invalid time '9am'/);
+    expect(() => new SwitchSchedule({ start: '09:00', end: '24:00' }, 'Kids')).toThrow(/invalid time '24:00'/);
+  });
+});
+
+describe('toAdGuardServicesSchedule', () => {
+  it('pauses blocking around an overnight window', () => {
+    const schedule = toAdGuardServicesSchedule({ days: 'mon,tue,wed,thu,fri', start: '21:00', end: '07:00' }, 'Kids');
+
+    expect(schedule).toEqual({
+      time_zone: 'Local',
+      sun: { start: 0, end: 24 * HOUR },
+      mon: { start: 0, end: 21 * HOUR },
+      tue: { start: 7 * HOUR, end: 21 * HOUR },
+      wed: { start: 7 * HOUR, end: 21 * HOUR },
+      thu: { start: 7 * HOUR, end: 21 * HOUR },
+      fri: { start: 7 * HOUR, end: 21 * HOUR },
+      sat: { start: 7 * HOUR, end: 24 * HOUR },
+    });
+  });
+
+  it('accepts same-day windows that start at 00:00 or end at 24:00', () => {
+    expect(toAdGuardServicesSchedule({ days: 'sun', start: '00:00', end: '08:00', timeZone: 'Europe/Berlin' }, 'Kids')).toEqual({
+      time_zone: 'Europe/Berlin',
+      sun: { start: 8 * HOUR, end: 24 * HOUR },
+      mon: { start: 0, end: 24 * HOUR },
+      tue: { start: 0, end: 24 * HOUR },
+      wed: { start: 0, end: 24 * HOUR },
+      thu: { start: 0, end: 24 * HOUR },
+      fri: { start: 0, end: 24 * HOUR },
+      sat: { start: 0, end: 24 * HOUR },
+    });
+    expect(toAdGuardServicesSchedule({ start: '18:00', end: '24:00' }, 'Kids').wed).toEqual({ start: 0, end: 18 * HOUR });
+  });
+
+  it('leaves out days that are blocked throughout', () => {
+    const schedule = toAdGuardServicesSchedule({ days: 'sat,sun', start: '00:00', end: '00:00' }, 'Kids');
+
+    expect(schedule.sun).toBeUndefined();
+    expect(schedule.mon).toEqual({ start: 0, end: 24 * HOUR });
+  });
+
+  it('rejects windows that would need two pauses in a day', () => {
+    expect(() => toAdGuardServicesSchedule({ start: '09:00', end: '17:00' }, 'Kids')).toThrow(/can not be represented/);
+  });
+
+  it('compares schedules, treating empty pauses as none', () => {
+    const schedule = toAdGuardServicesSchedule({ days: 'mon', start: '00:00', end: '08:00' }, 'Kids');
+
+    expect(isSameServicesSchedule(schedule, { ...schedule })).toBe(true);
+    expect(isSameServicesSchedule(schedule, { ...schedule, sun: undefined })).toBe(false);
+    expect(isSameServicesSchedule(schedule, { ...schedule, time_zone: 'UTC' })).toBe(false);
+    expect(isSameServicesSchedule({ time_zone: 'Local', mon: { start: 0, end: 0 } }, { time_zone: 'Local' })).toBe(true);
+  });
+});
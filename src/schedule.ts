@@ -0,0 +1,185 @@
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface ScheduleTransition {
+  at: number;  // ms since epoch
+  state: boolean;
+}
+
+// AdGuard Home's blocked services schedule. Each day has at most one range (ms after midnight)
+// during which blocking of services is *paused*.
+export interface AdGuardServicesSchedule {
+  time_zone: string;
+  sun?: { start: number; end: number };
+  mon?: { start: number; end: number };
+  tue?: { start: number; end: number };
+  wed?: { start: number; end: number };
+  thu?: { start: number; end: number };
+  fri?: { start: number; end: number };
+  sat?: { start: number; end: number };
+}
+
+// A 'schedule' window as written in the config. Days are 'mon,tue,...', times are 24-hour 'HH:MM'.
+export interface ScheduleWindowConfig {
+  days?: string;    // Every day, if left out
+  start: string;
+  end: string;
+  state?: boolean;  // Blocking, if left out
+}
+
+// A 'servicesSchedule' as written in the config.
+export interface ServicesScheduleConfig {
+  days?: string;
+  start: string;
+  end: string;        // '24:00' is allowed here
+  timeZone?: string;  // IANA name, or 'Local' for the AdGuard Home host's time zone
+}
+
+interface ScheduleWindow {
+  days: number[];  // 0 == Sunday
+  start: number;   // minutes after midnight
+  end: number;     // minutes after midnight. Ends the next day if not after 'start'.
+  state: boolean;
+}
+
+/**
+ * Switch Schedule
+ * A weekly list of time windows. When a window starts, the switch is set to the window's state. When it
+ * ends, the switch is set to the opposite. Outside of those boundaries the switch can be used as normal.
+ *
+ * Days refer to the day a window starts on, so '20:00'-'07:00' on 'sun' ends on Monday morning.
+ * Times are in the local time zone of the Homebridge host.
+ */
+export default class SwitchSchedule {
+  private readonly windows: ScheduleWindow[];
+
+  constructor(config: ScheduleWindowConfig | ScheduleWindowConfig[], private readonly groupName: string) {
+    const windowConfigs = Array.isArray(config) ? config : [config];
+    this.windows = windowConfigs.map((w) => this.parseWindow(w));
+  }
+
+  public get isEmpty(): boolean {
+    return (this.windows.length === 0);
+  }
+
+  public nextTransition(now: number = new Date().getTime()): ScheduleTransition | undefined {
+    return this.transitionsAround(now).find((t) => t.at > now);
+  }
+
+  public lastTransition(now: number = new Date().getTime()): ScheduleTransition | undefined {
+    return this.transitionsAround(now).filter((t) => t.at <= now).pop();
+  }
+
+  private transitionsAround(now: number): ScheduleTransition[] {
+    // A window that started yesterday may still be running, and every window comes around again within a week.
+    const transitions: ScheduleTransition[] = [];
+    const today = new Date(now);
+    for (let offset = -1; offset <= 7; offset++) {
+      const day = new Date(today.getFullYear(), today.getMonth(), today.getDate() + offset);
+      this.windows.filter((w) => w.days.includes(day.getDay())).forEach((w) => {
+        const endDay = (w.end <= w.start) ? 1 : 0;
+        transitions.push({ at: this.atMinutes(day, 0, w.start), state: w.state });
+        transitions.push({ at: this.atMinutes(day, endDay, w.end), state: !w.state });
+      });
+    }
+    return transitions.sort((a, b) => a.at - b.at);
+  }
+
+  private atMinutes(day: Date, dayOffset: number, minutes: number): number {
+    // Build from local date parts so DST changes land on the intended wall-clock time.
+    return new Date(day.getFullYear(), day.getMonth(), day.getDate() + dayOffset, Math.floor(minutes / 60), minutes % 60).getTime();
+  }
+
+  private parseWindow(config: ScheduleWindowConfig): ScheduleWindow {
+    return {
+      days: parseDays(config.days, this.groupName),
+      start: parseTime(config.start, this.groupName),
+      end: parseTime(config.end, this.groupName),
+      state: !(config.state === false), // true (blocking), unless explicitly false
+    };
+  }
+}
+
+/**
+ * Converts a blocking window ('days', 'start', 'end', 'timeZone') into AdGuard Home's blocked services schedule.
+ *
+ * AGH schedules the opposite: one range per day during which blocking is paused. So each day gets whatever
+ * the window leaves uncovered. Overnight windows always fit. Same-day windows only fit if they start at
+ * 00:00 or end at 24:00, since anything else leaves two uncovered ranges in a day.
+ */
+export function toAdGuardServicesSchedule(config: ServicesScheduleConfig, groupName: string): AdGuardServicesSchedule {
+  const days = parseDays(config.days, groupName);
+  const start = parseTime(config.start, groupName);
+  const end = parseTime(config.end, groupName, /* allowMidnight: */ true);
+  const schedule: AdGuardServicesSchedule = { time_zone: config.timeZone || 'Local' };
+
+  for (let day = 0; day < DAY_NAMES.length; day++) {
+    // Blocked minutes of this day, as [from, to) ranges. Overnight windows spill over from the day before.
+    const blocked: number[][] = [];
+    if (end > start) {
+      if (days.includes(day)) {
+        blocked.push([start, end]);
+      }
+    } else {
+      if (days.includes((day + 6) % 7)) {
+        blocked.push([0, end]);
+      }
+      if (days.includes(day)) {
+        blocked.push([start, MINUTES_PER_DAY]);
+      }
+    }
+
+    const pauses = complement(blocked.filter(([from, to]) => to > from));
+    if (pauses.length > 1) {
+      throw new Error(`Services schedule for '${groupName}' can not be represented in AdGuard Home, which only pauses`
+        + ' blocking once per day. Same-day windows must start at 00:00 or end at 24:00.');
+    } else if (pauses.length === 1) {
+      schedule[DAY_NAMES[day]] = { start: pauses[0][0] * 60 * 1000, end: pauses[0][1] * 60 * 1000 }; // minutes => ms
+    }
+  }
+
+  return schedule;
+}
+
+export function isSameServicesSchedule(a: AdGuardServicesSchedule | undefined, b: AdGuardServicesSchedule | undefined): boolean {
+  // AGH may leave out empty days, or send them back as zero-length ranges. Treat both as 'no pause'.
+  const pauseOf = (schedule: AdGuardServicesSchedule | undefined, day: string) => {
+    const range = schedule?.[day];
+    return (range && range.end > range.start) ? `${range.start}-${range.end}` : '';
+  };
+  return (a?.time_zone ?? '') === (b?.time_zone ?? '') && DAY_NAMES.every((day) => pauseOf(a, day) === pauseOf(b, day));
+}
+
+function complement(ranges: number[][]): number[][] {
+  const result: number[][] = [];
+  let from = 0;
+  ranges.sort((a, b) => a[0] - b[0]).forEach(([start, end]) => {
+    if (start > from) {
+      result.push([from, start]);
+    }
+    from = Math.max(from, end);
+  });
+  if (from < MINUTES_PER_DAY) {
+    result.push([from, MINUTES_PER_DAY]);
+  }
+  return result;
+}
+
+function parseDays(days: string | undefined, groupName: string): number[] {
+  return (days || DAY_NAMES.join(',')).split(',').map((day) => {
+    const index = DAY_NAMES.indexOf(day.trim().toLowerCase().substring(0, 3));
+    if (index < 0) {
+      throw new Error(`Schedule for '${groupName}' has an invalid day '${day}'. Use one of [${DAY_NAMES.join(',')}].`);
+    }
+    return index;
+  });
+}
+
+function parseTime(time: string, groupName: string, allowMidnight = false): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec((time ?? '').trim());
+  const minutes = match ? parseInt(match[1]) * 60 + parseInt(match[2]) : NaN;
+  if (!match || parseInt(match[2]) > 59 || minutes > (allowMidnight ? MINUTES_PER_DAY : MINUTES_PER_DAY - 1)) {
+    throw new Error(`Schedule for '${groupName}' has an invalid time '${time}'. Use 24-hour 'HH:MM'.`);
+  }
+  return minutes;
+}
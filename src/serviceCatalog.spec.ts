@@ -0,0 +1,49 @@
+import ServiceCatalog from './serviceCatalog';
+import { createMockLogger, MockLogger } from './mocks/homebridge';
+
+describe('ServiceCatalog', () => {
+  const services = [
+    { id: 'youtube', name: 'YouTube', group_id: 'video' },
+    { id: 'netflix', name: 'Netflix', group_id: 'video' },
+    { id: 'tiktok', name: 'TikTok', group_id: 'social_network' },
+  ];
+  let log: MockLogger;
+
+  beforeEach(() => {
+    log = createMockLogger();
+  });
+
+  it('accepts IDs and display names in any case', () => {
+    const catalog = new ServiceCatalog(services, ['video', 'social_network'], false, log);
+
+    expect(catalog.resolve('Kids', ['YouTube', 'TIKTOK', 'netflix'])).toEqual(['youtube', 'tiktok', 'netflix']);
+    expect(log.warn).not.toHaveBeenCalled();
+  });
+
+  it('expands groups', () => {
+    const catalog = new ServiceCatalog(services, ['video', 'social_network'], false, log);
+
+    expect(catalog.resolve('Kids', ['group:video', 'youtube'])).toEqual(['youtube', 'netflix']);
+  });
+
+  it('drops unknown services with a suggestion', () => {
+    const catalog = new ServiceCatalog(services, ['video', 'social_network'], false, log);
+
+    expect(catalog.resolve('Kids', ['youtub', 'tiktok', 'group:social'])).toEqual(['tiktok']);
+    expect(log.warn).toHaveBeenCalledWith(expect.stringContaining('Did you mean \'youtube\'?'));
+    expect(log.warn).toHaveBeenCalledWith(expect.stringContaining('unknown service group \'group:social\''));
+  });
+
+  it('leaves out suggestions that are not close', () => {
+    const catalog = new ServiceCatalog(services, [], false, log);
+
+    catalog.resolve('Kids', ['minecraft']);
+    expect(log.warn).toHaveBeenCalledWith(expect.not.stringContaining('Did you mean'));
+  });
+
+  it('rejects unknown services when strict', () => {
+    const catalog = new ServiceCatalog(services, [], true, log);
+
+    expect(() => catalog.resolve('Kids', ['youtub'])).toThrow('Did you mean \'youtube\'?');
+  });
+});
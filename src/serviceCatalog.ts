@@ -0,0 +1,92 @@
+import { Logger } from 'homebridge';
+import { BlockedServiceInfo } from './adguardhome';
+
+// Prefix for a whole group of services, e.g. 'group:social_network'.
+const GROUP_PREFIX = 'group:';
+
+/**
+ * Service Catalog
+ * The services AdGuard Home knows how to block ('/control/blocked_services/all'), used to check the 'services'
+ * of each switch when it is created.
+ *
+ * Names are matched without regard to case, and may be given by ID ('youtube') or display name ('YouTube').
+ * 'group:<id>' stands for every service in that group. Unknown names are dropped with a warning (and a
+ * suggestion, if one is close), or fail the switch when 'strict' is set.
+ */
+export default class ServiceCatalog {
+  constructor(
+    private readonly services: BlockedServiceInfo[],
+    private readonly groups: string[],
+    private readonly strict: boolean,
+    private readonly log: Logger,
+  ) {}
+
+  public resolve(owner: string, names: string[]): string[] {
+    const resolved: string[] = [];
+    names.forEach((name) => {
+      const ids = name.toLowerCase().startsWith(GROUP_PREFIX) ? this.resolveGroup(owner, name) : this.resolveService(owner, name);
+      ids.forEach((id) => {
+        if (!resolved.includes(id)) {
+          resolved.push(id);
+        }
+      });
+    });
+    return resolved;
+  }
+
+  private resolveService(owner: string, name: string): string[] {
+    const service = this.services.find((s) => s.id.toLowerCase() === name.toLowerCase() || s.name.toLowerCase() === name.toLowerCase());
+    if (service) {
+      return [service.id];
+    }
+
+    this.reject(owner, `unknown service '${name}'`, this.suggest(name, this.services.map((s) => s.id)));
+    return [];
+  }
+
+  private resolveGroup(owner: string, name: string): string[] {
+    const group = this.groups.find((g) => g.toLowerCase() === name.substring(GROUP_PREFIX.length).toLowerCase());
+    if (group) {
+      return this.services.filter((s) => s.group_id === group).map((s) => s.id);
+    }
+
+    const suggestion = this.suggest(name.substring(GROUP_PREFIX.length), this.groups);
+    this.reject(owner, `unknown service group '${name}'`, suggestion ? `${GROUP_PREFIX}${suggestion}` : undefined);
+    return [];
+  }
+
+  private reject(owner: string, problem: string, suggestion: string | undefined) {
+    const msg = `Switch '${owner}': ${problem}.${suggestion ? ` Did you mean '${suggestion}'?` : ''}`;
+    if (this.strict) {
+      this.log.error(msg);
+      throw new Error(msg);
+    }
+    this.log.warn(`${msg} Ignoring it.`);
+  }
+
+  private suggest(name: string, candidates: string[]): string | undefined {
+    // Close enough to be a typo: a couple of edits, or a third of the name for long ones.
+    const maxDistance = Math.max(2, Math.floor(name.length / 3));
+    let best: { candidate: string; distance: number } | undefined;
+    candidates.forEach((candidate) => {
+      const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+      if (distance <= maxDistance && (!best || distance < best.distance)) {
+        best = { candidate, distance };
+      }
+    });
+    return best?.candidate;
+  }
+}
+
+// Levenshtein distance
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,258 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { API, Service } from 'homebridge';
+import AGH, { AdGuardStatus, AuthMode } from './adguardhome';
+import AGHGroup, { AdGuardHomeState } from './platformAccessory';
+import { ServiceType } from './serviceManager';
+import MockAdGuardHome from './mocks/mockAdGuardHome';
+import { createAccessory, createMockApi, createMockLogger, createMockPlatform } from './mocks/homebridge';
+
+// Lets HTTP finish while timers are faked.
+const realSetTimeout = setTimeout;
+async function waitFor(condition: () => boolean, timeout = 2000) {
+  for (let waited = 0; waited < timeout && !condition(); waited += 10) {
+    await new Promise((resolve) => realSetTimeout(resolve, 10));
+  }
+  expect(condition()).toBe(true);
+}
+
+describe('ServiceManager', () => {
+  const mock = new MockAdGuardHome();
+  let storagePath: string;
+  let api: API;
+  let agh: AGH;
+
+  const createGroup = async (homekitType: ServiceType, available = true, config: Record<string, unknown> = {}) => {
+    const status = new Map<string, AdGuardStatus>();
+    status.set(agh.name, available ? await agh.getCurrentStatus({ status: true }) : new AdGuardStatus());
+    const accessory = createAccessory(api, { name: `AGH ${homekitType}`, homekitType, ...config });
+    return new AGHGroup(createMockPlatform(api), accessory, status, [agh]);
+  };
+
+  const mainService = (group: AGHGroup): Service => group['switches'][0];
+
+  const timeLeftSensor = (group: AGHGroup): Service | undefined =>
+    group.accessory.getServiceById(api.hap.Service.LightSensor, 'time_left');
+
+  beforeAll(async () => {
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.stop();
+  });
+
+  beforeEach(() => {
+    mock.reset();
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'agh-plus-'));
+    api = createMockApi(storagePath);
+    agh = new AGH('default', '127.0.0.1', `${mock.port}`, false, 'user', 'pass', AuthMode.Basic, 500, 2, 10, createMockLogger());
+  });
+
+  afterEach(() => {
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  it('rejects unknown service types', async () => {
+    await expect(createGroup('Doorbell' as ServiceType)).rejects.toThrow();
+  });
+
+  describe('Switch', () => {
+    it('shows blocking as on', async () => {
+      const group = await createGroup(ServiceType.Switch);
+
+      expect(mainService(group).getCharacteristic(api.hap.Characteristic.On).value).toBe(true);
+    });
+
+    it('sets AdGuard Home from HomeKit', async () => {
+      const group = await createGroup(ServiceType.Switch);
+
+      await mainService(group).getCharacteristic(api.hap.Characteristic.On).handleSetRequest(false);
+
+      expect(mock.state.protection_enabled).toBe(false);
+      expect(group.currentState).toBe(AdGuardHomeState.DISABLED);
+    });
+
+    it('shows the minutes left on a timer', async () => {
+      const group = await createGroup(ServiceType.Switch, true, { autoResetTimes: '15' });
+      const minutesLeft = timeLeftSensor(group)!.getCharacteristic(api.hap.Characteristic.CurrentAmbientLightLevel);
+      expect(minutesLeft.value).toBe(0);
+
+      await mainService(group).getCharacteristic(api.hap.Characteristic.On).handleSetRequest(false);
+      expect(minutesLeft.value).toBe(15);
+
+      await mainService(group).getCharacteristic(api.hap.Characteristic.On).handleSetRequest(true);
+      expect(minutesLeft.value).toBe(0);
+      group.stop();
+    });
+
+    it('picks the time left back up after a restart', async () => {
+      mock.state.protection_enabled = false;
+      fs.mkdirSync(`${storagePath}/agh_plus/AGH_Switch`, { recursive: true });
+      fs.writeFileSync(`${storagePath}/agh_plus/AGH_Switch/timer`, `${new Date().getTime() + 10 * 60 * 1000}`);
+      const group = await createGroup(ServiceType.Switch, true, { autoResetTimes: '15', nativePause: false });
+
+      await group.restoreUnfinishedTimers();
+
+      expect(await timeLeftSensor(group)!.getCharacteristic(api.hap.Characteristic.CurrentAmbientLightLevel).handleGetRequest())
+        .toBe(10);
+      group.stop();
+    });
+
+    it('has no time left sensor without timers, and no characteristics HAP does not expect', async () => {
+      const group = await createGroup(ServiceType.Switch);
+
+      expect(timeLeftSensor(group)).toBeUndefined();
+      expect(mainService(group).testCharacteristic(api.hap.Characteristic.RemainingDuration)).toBe(false);
+    });
+
+    it('reports no response while unavailable', async () => {
+      const group = await createGroup(ServiceType.Switch, false);
+
+      await expect(mainService(group).getCharacteristic(api.hap.Characteristic.On).handleGetRequest())
+        .rejects.toBe(api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    });
+  });
+
+  describe('Lock', () => {
+    it('maps states to lock states', async () => {
+      const { LockCurrentState, LockTargetState } = api.hap.Characteristic;
+      const group = await createGroup(ServiceType.Lock);
+      const lock = mainService(group);
+      expect(lock.getCharacteristic(LockCurrentState).value).toBe(LockCurrentState.SECURED);
+
+      mock.state.protection_enabled = false;
+      group.update(new Map([[agh.name, await agh.getCurrentStatus({ status: true })]]));
+      expect(lock.getCharacteristic(LockCurrentState).value).toBe(LockCurrentState.UNSECURED);
+      expect(lock.getCharacteristic(LockTargetState).value).toBe(LockTargetState.UNSECURED);
+    });
+
+    it('sets AdGuard Home from the target state', async () => {
+      const group = await createGroup(ServiceType.Lock);
+
+      await mainService(group).getCharacteristic(api.hap.Characteristic.LockTargetState)
+        .handleSetRequest(api.hap.Characteristic.LockTargetState.UNSECURED);
+
+      expect(mock.state.protection_enabled).toBe(false);
+    });
+
+    it('shows the minutes left on a timer', async () => {
+      const group = await createGroup(ServiceType.Lock, true, { autoResetTimes: '5,30' });
+
+      await group.handleHomeKitSetEvent(group['switches'][1], false, 30);
+
+      expect(timeLeftSensor(group)!.getCharacteristic(api.hap.Characteristic.CurrentAmbientLightLevel).value).toBe(30);
+      group.stop();
+    });
+  });
+
+  describe('Television', () => {
+    it('shows the state as the active input', async () => {
+      const group = await createGroup(ServiceType.TV);
+      const tv = mainService(group);
+
+      expect(tv.getCharacteristic(api.hap.Characteristic.ActiveIdentifier).value).toBe(1);
+      expect(await tv.getCharacteristic(api.hap.Characteristic.Active).handleGetRequest()).toBe(api.hap.Characteristic.Active.ACTIVE);
+    });
+
+    it('shows when a timer ends on the timed input', async () => {
+      const group = await createGroup(ServiceType.TV, true, { autoResetTimes: '15' });
+      const disabled = mainService(group).linkedServices.find((input) => input.subtype === AdGuardHomeState.DISABLED)!;
+
+      await group.handleHomeKitSetEvent(mainService(group), false, 15);
+      expect(disabled.getCharacteristic(api.hap.Characteristic.ConfiguredName).value).toMatch(/^⚫Disabled until (\w{3} )?\d\d:\d\d$/);
+
+      await group.handleHomeKitSetEvent(mainService(group), true, 15);
+      expect(disabled.getCharacteristic(api.hap.Characteristic.ConfiguredName).value).toBe('⚫Disabled');
+    });
+
+    it('toggles AdGuard Home with the power button', async () => {
+      const group = await createGroup(ServiceType.TV);
+
+      await mainService(group).getCharacteristic(api.hap.Characteristic.Active).handleSetRequest(api.hap.Characteristic.Active.INACTIVE);
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(mock.state.protection_enabled).toBe(false);
+    });
+  });
+
+  describe('Fan / Lightbulb', () => {
+    const { On, RotationSpeed, Brightness } = createMockApi('').hap.Characteristic;
+    let groups: AGHGroup[];
+
+    const createSlider = async (homekitType: ServiceType, config: Record<string, unknown> = {}) => {
+      const group = await createGroup(homekitType, true, config);
+      groups.push(group);
+      return group;
+    };
+
+    beforeEach(() => {
+      groups = [];
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    });
+
+    afterEach(() => {
+      groups.forEach((group) => group.stop());
+      jest.clearAllTimers();
+      jest.useRealTimers();
+    });
+
+    it('pauses for as long as the slider says', async () => {
+      const group = await createSlider(ServiceType.Fan);
+      const fan = mainService(group);
+      expect(fan.getCharacteristic(On).value).toBe(false);
+
+      await fan.getCharacteristic(RotationSpeed).handleSetRequest(30);
+      jest.advanceTimersByTime(1);
+
+      expect(mock.requests.find((r) => r.path === 'protection')?.body).toEqual({ enabled: false, duration: 30 * 60 * 1000 });
+      expect(fan.getCharacteristic(On).value).toBe(true);
+      expect(fan.getCharacteristic(RotationSpeed).value).toBe(30);
+    });
+
+    it('counts down as the pause runs out', async () => {
+      const group = await createSlider(ServiceType.Lightbulb, { pauseStep: 5, nativePause: false });
+      const light = mainService(group);
+
+      await light.getCharacteristic(Brightness).handleSetRequest(20);
+      jest.advanceTimersByTime(1);
+      expect(light.getCharacteristic(Brightness).value).toBe(20);
+
+      jest.advanceTimersByTime(6 * 60 * 1000);
+      expect(light.getCharacteristic(Brightness).value).toBe(15);
+
+      jest.advanceTimersByTime(14 * 60 * 1000);
+      await waitFor(() => mock.state.protection_enabled);
+      await waitFor(() => light.getCharacteristic(On).value === false);
+      expect(light.getCharacteristic(Brightness).value).toBe(0);
+    });
+
+    it('starts the last pause picked when tapped on, and ends it when tapped off', async () => {
+      const group = await createSlider(ServiceType.Lightbulb, { maxPause: 60 });
+      const light = mainService(group);
+
+      await light.getCharacteristic(On).handleSetRequest(true);
+      jest.advanceTimersByTime(250);
+      await waitFor(() => !mock.state.protection_enabled);
+      expect(mock.requests.find((r) => r.path === 'protection')?.body).toEqual({ enabled: false, duration: 30 * 60 * 1000 });
+
+      await light.getCharacteristic(On).handleSetRequest(false);
+      expect(mock.state.protection_enabled).toBe(true);
+      expect(group.timerExpiry).toBe(0);
+    });
+
+    it('waits for the slider when it comes along with on', async () => {
+      const group = await createSlider(ServiceType.Fan);
+      const fan = mainService(group);
+
+      await fan.getCharacteristic(On).handleSetRequest(true);
+      await fan.getCharacteristic(RotationSpeed).handleSetRequest(45);
+      jest.advanceTimersByTime(250);
+      await new Promise((resolve) => realSetTimeout(resolve, 50));
+
+      const pauses = mock.requests.filter((r) => r.path === 'protection').map((r) => r.body);
+      expect(pauses).toEqual([{ enabled: false, duration: 45 * 60 * 1000 }]);
+    });
+  });
+});
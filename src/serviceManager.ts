@@ -8,8 +8,21 @@ export const enum ServiceType {
   Switch = 'Switch',
   Lock = 'Lock',
   TV = 'Television',
+  Fan = 'Fan',              // 'RotationSpeed' picks the length of the pause
+  Lightbulb = 'Lightbulb',  // 'Brightness' picks the length of the pause
 }
 
+// Fans and lightbulbs are 'on' while paused. Their slider picks how long for, and counts down as the pause runs.
+export function hasPauseSlider(serviceType: string): boolean {
+  return serviceType === ServiceType.Fan || serviceType === ServiceType.Lightbulb;
+}
+
+// HomeKit sends 'On' along with the slider value when the slider is dragged. Wait this long (ms) for a slider
+// value before taking 'On' as a tap on the tile.
+const SLIDER_ON_DELAY = 250;
+
+const TIME_LEFT_SUBTYPE = 'time_left';
+
 /**
  * Service Manager
  * This class abstracts away the details of which type of service is being used to represent
@@ -22,6 +35,15 @@ export default class ServiceManager {
 
   private readonly serviceType: string;
 
+  // Pause slider (Fan/Lightbulb)
+  private readonly maxPause: number;   // minutes
+  private readonly pauseStep: number;  // minutes
+  private lastPause: number;           // minutes. Used when the tile is tapped on without picking a length.
+  private pendingOn: NodeJS.Timeout | undefined;
+  private countdown: NodeJS.Timeout | undefined;
+
+  private timeLeftSensor: Service | undefined;  // Switch/Lock groups with timers
+
   constructor(
     private readonly group: AGHGroup,
     private readonly api: API,
@@ -35,11 +57,30 @@ export default class ServiceManager {
       case ServiceType.Switch:
       case ServiceType.Lock:
       case ServiceType.TV:
+      case ServiceType.Fan:
+      case ServiceType.Lightbulb:
         break;
       default:
         this.log.error(`SM: Requested switch type '${this.serviceType}' for group '${group.name}' is not valid!`);
         throw new this.api.hap.HapStatusError(HAPStatus.INVALID_VALUE_IN_REQUEST);
     }
+
+    const config = group.accessory.context.config;
+    this.maxPause = config['maxPause'] || 120;
+    this.pauseStep = config['pauseStep'] || 5;
+    this.lastPause = Math.min(30, this.maxPause);
+    if (hasPauseSlider(this.serviceType) && (this.pauseStep <= 0 || this.maxPause < this.pauseStep)) {
+      const msg = `Switch group '${group.name}' needs a 'maxPause' of at least its 'pauseStep' (${this.pauseStep} minutes).`;
+      this.log.error(msg);
+      throw new Error(msg);
+    }
+  }
+
+  // Clears the slider timers, for a group that is going away.
+  public stop() {
+    clearTimeout(this.pendingOn);
+    clearTimeout(this.countdown);
+    this.pendingOn = this.countdown = undefined;
   }
 
   public createService(accessory: PlatformAccessory, timeout: number, initState: string, concise: boolean): Service {
@@ -108,6 +149,16 @@ export default class ServiceManager {
       tvService.addLinkedService(inputUnavailable);
       this.mainCharacteristic(tvService)?.updateValue(this.toCharacteristicValue(initState));
       return tvService;
+
+    } else if (hasPauseSlider(this.serviceType)) {
+      const sliderService = accessory.getService(configuredName) ||
+        accessory.addService((this.serviceType === ServiceType.Fan) ? this.Service.Fan : this.Service.Lightbulb, configuredName, subtype);
+      sliderService.setCharacteristic(this.Characteristic.Name, displayName);
+      sliderService.setCharacteristic(this.Characteristic.ConfiguredName, displayName);
+      sliderService.name = displayName;
+      this.sliderCharacteristic(sliderService)?.setProps({ minValue: 0, maxValue: this.maxPause, minStep: this.pauseStep });
+      this.mainCharacteristic(sliderService)?.updateValue(this.toCharacteristicValue(initState));
+      return sliderService;
     }
 
     // else if (this.serviceType === ServiceType.Switch) {
@@ -123,6 +174,27 @@ export default class ServiceManager {
     return switchService;
   }
 
+  // Switch and Lock tiles have nowhere to show a timer. Groups of them with timers get a light sensor that reads
+  // the minutes left. (HomeKit has no generic 'number' sensor. The Home app shows lux as a plain number.)
+  public createTimeLeftSensor(accessory: PlatformAccessory, timed: boolean) {
+    const cached = accessory.getServiceById(this.Service.LightSensor, TIME_LEFT_SUBTYPE);
+    if (!timed || (this.serviceType !== ServiceType.Switch && this.serviceType !== ServiceType.Lock)) {
+      if (cached) {
+        accessory.removeService(cached);
+      }
+      return;
+    }
+
+    const name = `${this.group.name} Minutes Left`;
+    this.timeLeftSensor = cached || accessory.addService(this.Service.LightSensor, name, TIME_LEFT_SUBTYPE);
+    this.timeLeftSensor.setCharacteristic(this.Characteristic.Name, name);
+    // Light levels default to a 0.0001 lux minimum and a 100000 lux maximum. No timer needs a real zero.
+    this.timeLeftSensor.getCharacteristic(this.Characteristic.CurrentAmbientLightLevel)
+      .setProps({ minValue: 0, maxValue: Number.MAX_SAFE_INTEGER })
+      .onGet(async () => this.remainingMinutes())
+      .updateValue(this.remainingMinutes());
+  }
+
   public addEventHandlers(service: Service, timeout: number) {
     this.log.info(`SM: Adding event handlers to Service ${service.displayName}.`);
 
@@ -133,6 +205,7 @@ export default class ServiceManager {
       // (Unless AGH is unavailable of course.)
       service.getCharacteristic(this.Characteristic.Active)
         .onGet(async () => {
+          this.group.refreshIfIdle();
           if (this.group.currentState === AGHState.UNAVAILABLE) {
             throw this.createUnresponsiveError(service);
           }
@@ -149,7 +222,10 @@ export default class ServiceManager {
 
       // Use 'Input' to show more nuanced status. And prevent users from changing it manually.
       service.getCharacteristic(this.Characteristic.ActiveIdentifier)
-        .onGet(async () => this.toCharacteristicValue(this.group.currentState))
+        .onGet(async () => {
+          this.group.refreshIfIdle();
+          return this.toCharacteristicValue(this.group.currentState);
+        })
         .onSet(async (/* value: CharacteristicValue */) => {
           setTimeout(() => service.updateCharacteristic(this.Characteristic.ActiveIdentifier,
             this.toCharacteristicValue(this.group.currentState)));
@@ -160,8 +236,42 @@ export default class ServiceManager {
     const main = this.mainCharacteristic(service);
     const target = this.targetCharacteristic(service);
 
-    main?.onGet(async () => this.toCharacteristicValue(this.group.currentState, true));
-    target?.onGet(async () => this.toCharacteristicValue(this.group.targetState));
+    // Reads are answered from the last poll. If that is getting old, a fresh one is pushed once it arrives.
+    main?.onGet(async () => {
+      this.group.refreshIfIdle();
+      return this.toCharacteristicValue(this.group.currentState, true);
+    });
+    target?.onGet(async () => {
+      this.group.refreshIfIdle();
+      return this.toCharacteristicValue(this.group.targetState);
+    });
+
+    // Sliders pause for as long as they are set to. 'On' by itself starts the last pause picked, and 'Off' ends it.
+    if (hasPauseSlider(this.serviceType)) {
+      const slider = this.sliderCharacteristic(service)!;
+      slider.onGet(async () => this.toSliderValue());
+      slider.onSet(async (value: CharacteristicValue) => {
+        clearTimeout(this.pendingOn);
+        const minutes = Math.round((value as number) / this.pauseStep) * this.pauseStep;
+        if (minutes > 0) {
+          this.lastPause = minutes;
+        }
+        return this.setPause(service, minutes);
+      });
+      main?.onSet(async (value: CharacteristicValue) => {
+        clearTimeout(this.pendingOn);
+        if (!value) {
+          return this.setPause(service, 0);
+        }
+        this.pendingOn = setTimeout(() => {
+          if (this.group.targetState !== this.pausedState) {
+            this.setPause(service, this.lastPause);
+          }
+        }, SLIDER_ON_DELAY);
+      });
+      return;
+    }
+
     (target ? target : main)?.onSet(async (value: CharacteristicValue) => this.group.handleHomeKitSetEvent(service, value, timeout));
   }
 
@@ -170,6 +280,7 @@ export default class ServiceManager {
 
     this.mainCharacteristic(service)?.updateValue(this.toCharacteristicValue(state));
     this.targetCharacteristic(service)?.updateValue(this.toCharacteristicValue(target));
+    this.updateTimer(service);
 
     // Services can show 'No Response' when they are unavailable. HOWEVER, setting them to that state
     // does not reflect immediately in HomeKit. (And conversely, does not resolve immediately in HomeKit
@@ -185,6 +296,20 @@ export default class ServiceManager {
     this.log.debug(`   ...done with updateHomeKit(${service.displayName}:${service.subtype}, ${state}, ${target}).`);
   }
 
+  // Shows the time left on the group's timer: on the time left sensor, on the slider, or on the TV input for
+  // the timed state ('Disabled until 21:40').
+  public updateTimer(service: Service) {
+    if (this.serviceType === ServiceType.TV) {
+      const input = service.linkedServices.find((linked) => linked.subtype === this.pausedState);
+      const expiry = (this.remainingMinutes() > 0) ? ` until ${formatTime(this.group.timerExpiry)}` : '';
+      input?.updateCharacteristic(this.Characteristic.ConfiguredName, `${input.displayName}${expiry}`);
+    }
+    this.timeLeftSensor?.updateCharacteristic(this.Characteristic.CurrentAmbientLightLevel, this.remainingMinutes());
+    if (hasPauseSlider(this.serviceType)) {
+      this.updateSlider(service);
+    }
+  }
+
   private mainCharacteristic(service: Service): Characteristic | undefined {
     switch (this.serviceType) {
       case ServiceType.Lock:
@@ -192,12 +317,61 @@ export default class ServiceManager {
       case ServiceType.TV:
         return service.getCharacteristic(this.Characteristic.ActiveIdentifier);
       case ServiceType.Switch:
+      case ServiceType.Fan:
+      case ServiceType.Lightbulb:
         return service.getCharacteristic(this.Characteristic.On);
     }
 
     return undefined;
   }
 
+  private sliderCharacteristic(service: Service): Characteristic | undefined {
+    switch (this.serviceType) {
+      case ServiceType.Fan:
+        return service.getCharacteristic(this.Characteristic.RotationSpeed);
+      case ServiceType.Lightbulb:
+        return service.getCharacteristic(this.Characteristic.Brightness);
+    }
+
+    return undefined;
+  }
+
+  private remainingMinutes(): number {
+    const remaining = Math.ceil((this.group.timerExpiry - new Date().getTime()) / (60 * 1000));  // ms => min
+    return (this.group.timerExpiry && remaining > 0) ? remaining : 0;
+  }
+
+  // The state a switch is in while its timer runs: away from the group's default. Sliders are 'on' in it.
+  private get pausedState(): AGHState {
+    return this.group.defaultState ? AGHState.DISABLED : AGHState.BLOCKING;
+  }
+
+  private async setPause(service: Service, minutes: number) {
+    return this.group.handleHomeKitSetEvent(service, (minutes > 0) ? !this.group.defaultState : this.group.defaultState, minutes);
+  }
+
+  // The time left on the pause, rounded up to the slider's step.
+  private toSliderValue(): number {
+    const remaining = this.group.timerExpiry - new Date().getTime();  // ms
+    if (!this.group.timerExpiry || remaining <= 0) {
+      return 0;
+    }
+    return Math.min(this.maxPause, Math.ceil(remaining / (this.pauseStep * 60 * 1000)) * this.pauseStep);
+  }
+
+  // Sets the slider to the time left, and again each time it drops by a step.
+  private updateSlider(service: Service) {
+    clearTimeout(this.countdown);
+    this.countdown = undefined;
+    this.sliderCharacteristic(service)?.updateValue(this.toSliderValue());
+
+    const remaining = this.group.timerExpiry - new Date().getTime();  // ms
+    if (this.group.timerExpiry && remaining > 0) {
+      const step = this.pauseStep * 60 * 1000;  // minutes => ms
+      this.countdown = setTimeout(() => this.updateSlider(service), (remaining % step) || step);
+    }
+  }
+
   private targetCharacteristic(service: Service): Characteristic | undefined {
     switch (this.serviceType) {
       case ServiceType.Lock:
@@ -239,6 +413,10 @@ export default class ServiceManager {
             return 4;
         }
 
+      case ServiceType.Fan:
+      case ServiceType.Lightbulb:
+        return (state === this.pausedState);
+
       case ServiceType.Switch:
       default:
         return (state === AGHState.BLOCKING);
@@ -251,3 +429,10 @@ export default class ServiceManager {
     return err;
   }
 }
+
+// 'HH:MM' in local time, with the day of the week if it isn't today.
+function formatTime(ms: number): string {
+  const date = new Date(ms);
+  const time = `${date.getHours()}`.padStart(2, '0') + ':' + `${date.getMinutes()}`.padStart(2, '0');
+  return (date.toDateString() === new Date().toDateString()) ? time : `${date.toLocaleDateString('en-US', { weekday: 'short' })} ${time}`;
+}
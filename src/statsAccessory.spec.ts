@@ -0,0 +1,89 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { API, HAPStatus, Service } from 'homebridge';
+import AGH, { AdGuardStatus, AuthMode } from './adguardhome';
+import AGHStats from './statsAccessory';
+import MockAdGuardHome from './mocks/mockAdGuardHome';
+import { createAccessory, createMockApi, createMockLogger, createMockPlatform } from './mocks/homebridge';
+
+describe('AdGuardHomeStatsAccessory', () => {
+  const mock = new MockAdGuardHome();
+  let storagePath: string;
+  let api: API;
+  let agh: AGH;
+
+  const readStatus = async () => {
+    const status = new Map<string, AdGuardStatus>();
+    status.set(agh.name, await agh.getCurrentStatus({ stats: true }));
+    return status;
+  };
+
+  const createSensor = async () =>
+    new AGHStats(createMockPlatform(api), createAccessory(api, { name: 'AdGuard Stats' }), await readStatus(), agh);
+
+  const service = (sensor: AGHStats, key: string): Service => sensor[key] as Service;
+
+  const lightLevel = (sensor: AGHStats, key: string) =>
+    service(sensor, key).getCharacteristic(api.hap.Characteristic.CurrentAmbientLightLevel);
+
+  const humidity = (sensor: AGHStats) =>
+    service(sensor, 'blockedPercentage').getCharacteristic(api.hap.Characteristic.CurrentRelativeHumidity);
+
+  beforeAll(async () => {
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.stop();
+  });
+
+  beforeEach(() => {
+    mock.reset();
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'agh-plus-'));
+    api = createMockApi(storagePath);
+    agh = new AGH('default', '127.0.0.1', `${mock.port}`, false, 'user', 'pass', AuthMode.Basic, 500, 2, 10, createMockLogger());
+  });
+
+  afterEach(() => {
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  it('shows the query counters, the processing time and the blocked percentage', async () => {
+    mock.state.stats = { num_dns_queries: 3000, num_blocked_filtering: 250, avg_processing_time: 0.012345 };
+
+    const sensor = await createSensor();
+
+    expect(lightLevel(sensor, 'totalQueries').value).toBe(3000);
+    expect(lightLevel(sensor, 'blockedQueries').value).toBe(250);
+    expect(lightLevel(sensor, 'avgProcessingTime').value).toBe(12.35);
+    expect(humidity(sensor).value).toBe(8);  // CurrentRelativeHumidity steps by whole percents
+  });
+
+  it('shows zero for a server without queries', async () => {
+    const sensor = await createSensor();
+
+    expect(lightLevel(sensor, 'totalQueries').value).toBe(0);
+    expect(humidity(sensor).value).toBe(0);
+  });
+
+  it('follows the counters as they change', async () => {
+    const sensor = await createSensor();
+
+    mock.state.stats = { num_dns_queries: 10, num_blocked_filtering: 5, avg_processing_time: 0.002 };
+    sensor.update(await readStatus());
+
+    expect(lightLevel(sensor, 'blockedQueries').value).toBe(5);
+    expect(humidity(sensor).value).toBe(50);
+  });
+
+  it('reports an unreachable server as unresponsive', async () => {
+    const sensor = await createSensor();
+
+    mock.injectFault({ path: 'stats', status: 500 });
+    sensor.update(await readStatus());
+
+    expect(lightLevel(sensor, 'totalQueries').statusCode).toBe(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    expect(humidity(sensor).statusCode).toBe(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+  });
+});
@@ -0,0 +1,116 @@
+import { Service, PlatformAccessory, Characteristic, Logger, HapStatusError, HAPStatus } from 'homebridge';
+import { AdGuardHomePlus } from './platform';
+import AGH, { AdGuardStatus as AGHStatus, AdGuardStatusQuery, AdGuardStats } from './adguardhome';
+
+// 'sensorType' values. platform.ts checks the config against them when it sets up the sensors.
+export const enum SensorType {
+  Statistics = 'Statistics',
+  BlockedQueries = 'BlockedQueries',  // See blockedQueryAccessory.ts
+  ClientActivity = 'ClientActivity',  // See clientActivityAccessory.ts
+}
+
+/**
+ * Statistics Accessory
+ * Publishes the query counters from AdGuard Home's '/control/stats' as sensor characteristics.
+ *
+ * HomeKit has no generic 'number' sensor, so counts and timings are shown on light sensors
+ * (lux is just a number to the Home app) and the blocked percentage on a humidity sensor.
+ */
+export default class AdGuardHomeStatsAccessory {
+  public get name(): string {
+    return this.accessoryName;
+  }
+
+  public readonly statusQuery: AdGuardStatusQuery = { stats: true };
+
+  private readonly Characteristic: typeof Characteristic;
+  private readonly accessoryName: string;
+  private readonly totalQueries: Service;
+  private readonly blockedQueries: Service;
+  private readonly blockedPercentage: Service;
+  private readonly avgProcessingTime: Service;
+  private readonly log: Logger;
+
+  constructor(
+    private readonly platform: AdGuardHomePlus,
+    private readonly accessory: PlatformAccessory,
+    private readonly initialStatus: Map<string, AGHStatus>,
+    private readonly agh: AGH,
+  ) {
+    const config = accessory.context.config;
+    this.Characteristic = this.platform.Characteristic;
+    this.accessoryName = config['name'];
+    this.log = platform.log;
+
+    this.log.info(`Initializing AdGuard Home Statistics ${this.accessoryName} for server '${this.agh.name}'...`);
+
+    this.accessory.getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.Characteristic.Manufacturer, config['manufacturer'] || 'AdGuard Home')
+      .setCharacteristic(this.Characteristic.Model, config['model'] || 'AdGuard Home Statistics')
+      .setCharacteristic(this.Characteristic.SerialNumber, config['serial-number'] || '123-456-789')
+      .setCharacteristic(this.Characteristic.Name, this.accessoryName)
+      .setCharacteristic(this.Characteristic.ConfiguredName, this.accessoryName);
+
+    this.totalQueries = this.createCountService('Total Queries', 'total_queries');
+    this.blockedQueries = this.createCountService('Blocked Queries', 'blocked_queries');
+    this.avgProcessingTime = this.createCountService('Avg Processing Time', 'avg_processing_time');
+    this.blockedPercentage = this.createService(this.platform.Service.HumiditySensor, 'Blocked Percentage', 'blocked_percentage');
+
+    this.update(this.initialStatus);
+
+    this.log.info(`AdGuard Home Statistics ${this.accessoryName} initialized.`);
+  }
+
+  public targetsServer(agh: AGH): boolean {
+    return this.agh === agh;
+  }
+
+  public update(currentStatus: Map<string, AGHStatus>) {
+    const status = currentStatus.get(this.agh.name);
+    const stats: AdGuardStats | undefined = status?.stats;
+
+    if (status?.isAvailable !== true || !stats) {
+      [this.totalQueries, this.blockedQueries, this.avgProcessingTime].forEach((service) => {
+        service.getCharacteristic(this.Characteristic.CurrentAmbientLightLevel).updateValue(this.createUnresponsiveError(service));
+      });
+      this.blockedPercentage.getCharacteristic(this.Characteristic.CurrentRelativeHumidity)
+        .updateValue(this.createUnresponsiveError(this.blockedPercentage));
+      return;
+    }
+
+    this.log.debug(`Updating statistics for '${this.accessoryName}': ${stats.totalQueries} queries, ${stats.blockedQueries} blocked.`);
+    this.totalQueries.updateCharacteristic(this.Characteristic.CurrentAmbientLightLevel, stats.totalQueries);
+    this.blockedQueries.updateCharacteristic(this.Characteristic.CurrentAmbientLightLevel, stats.blockedQueries);
+    this.avgProcessingTime.updateCharacteristic(this.Characteristic.CurrentAmbientLightLevel,
+      Math.round(stats.avgProcessingTime * 100) / 100);
+    this.blockedPercentage.updateCharacteristic(this.Characteristic.CurrentRelativeHumidity,
+      Math.round(stats.blockedPercentage * 10) / 10);
+  }
+
+  private createCountService(displayName: string, subtype: string): Service {
+    const service = this.createService(this.platform.Service.LightSensor, displayName, subtype);
+    // Light levels default to a 0.0001 lux minimum and a 100000 lux maximum. Counters need a real zero and room to grow.
+    service.getCharacteristic(this.Characteristic.CurrentAmbientLightLevel).setProps({
+      minValue: 0,
+      maxValue: Number.MAX_SAFE_INTEGER,
+    });
+    return service;
+  }
+
+  private createService(serviceType: typeof Service.LightSensor | typeof Service.HumiditySensor,
+    displayName: string, subtype: string): Service {
+    const configuredName = `${this.accessoryName} - ${displayName}`;
+    const service = this.accessory.getService(configuredName) ||
+      this.accessory.addService(serviceType, configuredName, subtype);
+    service.setCharacteristic(this.Characteristic.Name, displayName);
+    service.setCharacteristic(this.Characteristic.ConfiguredName, displayName);
+    service.name = displayName;
+    return service;
+  }
+
+  private createUnresponsiveError(service: Service): HapStatusError {
+    const err: HapStatusError = new this.platform.api.hap.HapStatusError(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    err.message = `Statistics '${this.accessoryName}:${service.displayName}': AdGuardHome is unresponsive.`;
+    return err;
+  }
+}
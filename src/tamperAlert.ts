@@ -0,0 +1,76 @@
+import { Service, PlatformAccessory, Characteristic, Logger } from 'homebridge';
+import { AdGuardHomePlus } from './platform';
+
+// 'tamperAlert' values, checked one by one in the ctor.
+export const enum TamperAlertType {
+  Contact = 'contact',  // ContactSensor that is open until the switch group is back to its intended state
+  Button = 'button',    // StatelessProgrammableSwitch that is 'pressed' each time the group is tampered with
+  None = 'none',
+}
+
+const TAMPER_SUBTYPE = 'tamper';
+
+/**
+ * Tamper Alert
+ * A service added to an enforced switch group, so HomeKit can send a notification (or run an automation) when the
+ * group is changed outside of the plugin, e.g. in the AdGuard Home web UI.
+ */
+export default class TamperAlert {
+  private readonly Characteristic: typeof Characteristic;
+  private readonly service: Service | undefined;
+
+  constructor(
+    platform: AdGuardHomePlus,
+    accessory: PlatformAccessory,
+    groupName: string,
+    private readonly alertType: string,
+    log: Logger,
+  ) {
+    this.Characteristic = platform.Characteristic;
+
+    if (alertType !== TamperAlertType.Contact && alertType !== TamperAlertType.Button && alertType !== TamperAlertType.None) {
+      const msg = `Switch group '${groupName}' has unknown tamper alert '${alertType}'. Use 'contact', 'button' or 'none'.`;
+      log.error(msg);
+      throw new Error(msg);
+    }
+
+    const serviceType = (alertType === TamperAlertType.Contact) ? platform.Service.ContactSensor
+      : (alertType === TamperAlertType.Button) ? platform.Service.StatelessProgrammableSwitch : undefined;
+
+    // A cached accessory may still carry another kind of alert, or one that is no longer wanted.
+    accessory.services
+      .filter((service) => service.subtype === TAMPER_SUBTYPE && service.UUID !== serviceType?.UUID)
+      .forEach((service) => accessory.removeService(service));
+    if (!serviceType) {
+      return;
+    }
+
+    const name = `${groupName} Tampered`;
+    this.service = accessory.getServiceById(serviceType, TAMPER_SUBTYPE) || accessory.addService(serviceType, name, TAMPER_SUBTYPE);
+    this.service.setCharacteristic(this.Characteristic.Name, name);
+    if (alertType === TamperAlertType.Button) {
+      // Single presses only, as with the blocked query button.
+      this.service.getCharacteristic(this.Characteristic.ProgrammableSwitchEvent).setProps({
+        validValues: [this.Characteristic.ProgrammableSwitchEvent.SINGLE_PRESS],
+      });
+    } else {
+      this.clear();
+    }
+  }
+
+  public trip() {
+    if (this.alertType === TamperAlertType.Button) {
+      this.service?.updateCharacteristic(this.Characteristic.ProgrammableSwitchEvent,
+        this.Characteristic.ProgrammableSwitchEvent.SINGLE_PRESS);
+    } else {
+      this.service?.updateCharacteristic(this.Characteristic.ContactSensorState,
+        this.Characteristic.ContactSensorState.CONTACT_NOT_DETECTED);
+    }
+  }
+
+  public clear() {
+    if (this.alertType === TamperAlertType.Contact) {
+      this.service?.updateCharacteristic(this.Characteristic.ContactSensorState, this.Characteristic.ContactSensorState.CONTACT_DETECTED);
+    }
+  }
+}